@@ -0,0 +1,238 @@
+import { ApiRequest, ApiResponse } from './lib/http';
+import { createRouter } from './lib/router';
+import {
+  updateUserSchema,
+  createCheckInSchema,
+  updateCheckInSchema,
+  importCheckInsSchema,
+  createScheduleSchema,
+  flexibleScheduleSchema,
+  createCheerSchema,
+  markNotificationsReadSchema,
+  discordUserSchema,
+  discordCheckInSchema,
+  discordCheckInBatchSchema,
+  discordUpdateCheckInSchema,
+  discordDeleteCheckInSchema,
+  discordRestDaySchema,
+  discordScheduleSchema,
+  discordStreakFreezeSchema,
+  grantStreakFreezesSchema,
+  discordCheckInEmbedSchema,
+  discordCheerEmbedSchema,
+  discordWebhookSchema,
+  authCallbackQuerySchema,
+  discordProfileEmbedQuerySchema,
+  streakLeaderboardQuerySchema,
+  checkinLeaderboardQuerySchema,
+  galleryQuerySchema,
+  notificationsQuerySchema,
+  analyticsQuerySchema,
+  exercisesQuerySchema,
+  exerciseHistoryQuerySchema,
+  exportQuerySchema,
+  createTemplateSchema,
+  updateTemplateSchema,
+  templatesQuerySchema,
+} from './lib/validation';
+import { sendError } from './lib/errors';
+import { getCheckInOwner } from './lib/checkins';
+import { getTemplateOwner } from './lib/templates';
+import { getUserOwner } from './lib/users';
+import { handleCors } from './middleware/cors';
+import { requireAccess, requireBot, requireUser } from './middleware/auth';
+import { handleMainAPI } from './routes/info';
+import { createOpenApiHandler, handleDocsViewer } from './routes/docs';
+import { handleDiscordAuth, handleAuthCallback, handleAuthMe } from './routes/auth';
+import { handleUserGet, handleUserUpdate, handleUserPhotos, handleUserRecords, handleUserExport } from './routes/users';
+import {
+  handleCheckinCreate,
+  handleCheckinImport,
+  handleCheckinUpdate,
+  handleCheckinDelete,
+  handleCheckinList,
+  handleCheckinRecent,
+  handleCheckinPhotos,
+} from './routes/checkins';
+import { handleScheduleCreate, handleFlexibleScheduleCreate, handleScheduleGet } from './routes/schedules';
+import { handleCheerSend, handleCheerList } from './routes/cheers';
+import { handleStreakGet, handleStreakHistory, handleStreakFreezeGrant } from './routes/streaks';
+import {
+  handleDiscordUserProfile,
+  handleDiscordRegisterEmbed,
+  handleDiscordRegister,
+  handleDiscordCheckin,
+  handleDiscordCheckinBatch,
+  handleDiscordCheckinUpdate,
+  handleDiscordCheckinDelete,
+  handleDiscordRestDay,
+  handleDiscordSchedule,
+  handleDiscordStreakFreeze,
+  handleDiscordCheckinEmbed,
+  handleDiscordProfileEmbed,
+  handleDiscordCheerEmbed,
+  handleDiscordWebhook,
+} from './routes/discord';
+import { handleLeaderboardStreaks, handleLeaderboardCheckins } from './routes/leaderboard';
+import { handleGalleryPhotos } from './routes/gallery';
+import { handleNotificationsList, handleNotificationsMarkRead, handleNotificationsMarkAllRead } from './routes/notifications';
+import { handleAnalyticsGet } from './routes/analytics';
+import { handleExerciseList, handleExerciseHistory } from './routes/exercises';
+import {
+  handleTemplateCreate,
+  handleTemplateList,
+  handleTemplateGet,
+  handleTemplateUpdate,
+  handleTemplateDelete,
+} from './routes/templates';
+
+export const router = createRouter();
+
+// Every mutating route declares who may call it; reads stay public except the bot-only /discord/* routes.
+// Routes with a body or query schema only reach their handler with parsed, valid input, and every
+// spec doubles as the route's entry in the generated OpenAPI document (/api/openapi.json).
+router.get('/', { summary: 'API information' }, handleMainAPI);
+router.get('/openapi.json', { summary: 'This OpenAPI document' }, createOpenApiHandler(router));
+router.get('/docs', { summary: 'Interactive API documentation' }, handleDocsViewer);
+
+router.get('/auth/discord', { summary: 'Redirect to Discord OAuth' }, handleDiscordAuth);
+router.get('/auth/callback', { summary: 'Handle the Discord OAuth callback', query: authCallbackQuerySchema }, handleAuthCallback);
+router.get('/auth/me', { summary: 'Current user' }, requireUser(handleAuthMe));
+
+router.get('/users/:id', { summary: 'User profile with streak info' }, handleUserGet);
+router.patch(
+  '/users/:id',
+  { summary: 'Update bio, avatar or timezone', body: updateUserSchema },
+  requireAccess({ allow: ['self', 'admin'], owner: ({ id }) => getUserOwner(id), missing: 'USER_NOT_FOUND' }, handleUserUpdate)
+);
+router.get('/users/:id/photos', { summary: 'All check-in photos of a user' }, handleUserPhotos);
+router.get('/users/:id/records', { summary: 'Current personal records of a user' }, handleUserRecords);
+router.get(
+  '/users/:id/export',
+  { summary: 'Download everything a member has logged as JSON, CSV or iCalendar', query: exportQuerySchema },
+  requireAccess({ allow: ['self'], owner: ({ id }) => id }, handleUserExport)
+);
+router.get(
+  '/users/:id/exercises/:exerciseId/history',
+  { summary: 'Volume and estimated one-rep max of an exercise over time', query: exerciseHistoryQuerySchema },
+  handleExerciseHistory
+);
+
+router.get('/exercises', { summary: 'Exercise catalogue', query: exercisesQuerySchema }, handleExerciseList);
+
+router.post('/checkins', { summary: 'Log a check-in', body: createCheckInSchema }, requireUser(handleCheckinCreate));
+router.post(
+  '/checkins/import',
+  { summary: 'Import workouts from GPX, TCX or CSV files', body: importCheckInsSchema },
+  requireUser(handleCheckinImport)
+);
+router.patch(
+  '/checkins/:id',
+  { summary: 'Correct a check-in and recompute the streak', body: updateCheckInSchema },
+  requireAccess({ allow: ['self', 'admin'], owner: ({ id }) => getCheckInOwner(id), missing: 'CHECKIN_NOT_FOUND' }, handleCheckinUpdate)
+);
+router.delete(
+  '/checkins/:id',
+  { summary: 'Delete a check-in and recompute the streak' },
+  requireAccess({ allow: ['self', 'admin'], owner: ({ id }) => getCheckInOwner(id), missing: 'CHECKIN_NOT_FOUND' }, handleCheckinDelete)
+);
+router.get('/checkins/:userId', { summary: 'All check-ins of a user' }, handleCheckinList);
+router.get('/checkins/:userId/recent', { summary: 'Last 5 check-ins of a user' }, handleCheckinRecent);
+router.get('/checkins/:userId/photos', { summary: 'Check-ins with photos' }, handleCheckinPhotos);
+
+router.post('/schedules', { summary: 'Create or update a weekly schedule', body: createScheduleSchema }, requireUser(handleScheduleCreate));
+router.post(
+  '/schedules/flexible',
+  { summary: 'Create or update a weekly, rotating or custom schedule', body: flexibleScheduleSchema },
+  requireUser(handleFlexibleScheduleCreate)
+);
+router.get('/schedules/:userId', { summary: 'Schedule of a user' }, handleScheduleGet);
+
+router.post('/templates', { summary: 'Create a workout template', body: createTemplateSchema }, requireUser(handleTemplateCreate));
+router.get('/templates', { summary: 'Workout templates of a user or shared with a guild; private ones for their owner only', query: templatesQuerySchema }, handleTemplateList);
+router.get('/templates/:id', { summary: 'A workout template' }, handleTemplateGet);
+router.patch(
+  '/templates/:id',
+  { summary: 'Update a workout template', body: updateTemplateSchema },
+  requireAccess({ allow: ['self', 'admin'], owner: ({ id }) => getTemplateOwner(id), missing: 'TEMPLATE_NOT_FOUND' }, handleTemplateUpdate)
+);
+router.delete(
+  '/templates/:id',
+  { summary: 'Delete a workout template' },
+  requireAccess({ allow: ['self', 'admin'], owner: ({ id }) => getTemplateOwner(id), missing: 'TEMPLATE_NOT_FOUND' }, handleTemplateDelete)
+);
+
+router.post('/cheers', { summary: 'Send a cheer to another user', body: createCheerSchema }, requireUser(handleCheerSend));
+router.get('/cheers/:userId', { summary: 'Cheers received by a user' }, handleCheerList);
+
+router.get('/streak/:userId', { summary: 'Current streak data' }, handleStreakGet);
+router.get('/streak/:userId/history', { summary: 'Every streak of a user, newest first' }, handleStreakHistory);
+router.post(
+  '/streak/:userId/freezes',
+  { summary: 'Grant streak freezes', body: grantStreakFreezesSchema },
+  requireAccess({ allow: ['admin'] }, handleStreakFreezeGrant)
+);
+
+router.get('/discord/user/:discordId', { summary: 'Profile by Discord ID' }, requireBot(handleDiscordUserProfile));
+router.post('/discord/register-embed', { summary: 'Register a user and return an embed', body: discordUserSchema }, requireBot(handleDiscordRegisterEmbed));
+router.post('/discord/register', { summary: 'Register a user', body: discordUserSchema }, requireBot(handleDiscordRegister));
+router.post('/discord/checkin', { summary: 'Log a check-in for a Discord user', body: discordCheckInSchema }, requireBot(handleDiscordCheckin));
+router.post(
+  '/discord/checkins/batch',
+  { summary: 'Replay check-ins the bot queued while offline', body: discordCheckInBatchSchema },
+  requireBot(handleDiscordCheckinBatch)
+);
+router.patch(
+  '/discord/checkin',
+  { summary: 'Correct the check-in logged from a Discord message', body: discordUpdateCheckInSchema },
+  requireBot(handleDiscordCheckinUpdate)
+);
+router.delete(
+  '/discord/checkin',
+  { summary: 'Delete the check-in logged from a Discord message', body: discordDeleteCheckInSchema },
+  requireBot(handleDiscordCheckinDelete)
+);
+router.post('/discord/rest-day', { summary: 'Log a rest day for a Discord user', body: discordRestDaySchema }, requireBot(handleDiscordRestDay));
+router.post('/discord/schedule', { summary: 'Create, update, get or delete a schedule', body: discordScheduleSchema }, requireBot(handleDiscordSchedule));
+router.post(
+  '/discord/streak-freeze',
+  { summary: 'Show, use or configure streak freezes', body: discordStreakFreezeSchema },
+  requireBot(handleDiscordStreakFreeze)
+);
+router.post('/discord/checkin-embed', { summary: 'Check-in embed', body: discordCheckInEmbedSchema }, requireBot(handleDiscordCheckinEmbed));
+router.get('/discord/profile-embed', { summary: 'Profile embed', query: discordProfileEmbedQuerySchema }, requireBot(handleDiscordProfileEmbed));
+router.post('/discord/cheer-embed', { summary: 'Cheer embed', body: discordCheerEmbedSchema }, requireBot(handleDiscordCheerEmbed));
+router.post('/discord/webhook', { summary: 'Send an event to a Discord webhook', body: discordWebhookSchema }, requireBot(handleDiscordWebhook));
+
+router.get('/leaderboard/streaks', { summary: 'Streak leaderboard', query: streakLeaderboardQuerySchema }, handleLeaderboardStreaks);
+router.get('/leaderboard/checkins', { summary: 'Check-in leaderboard', query: checkinLeaderboardQuerySchema }, handleLeaderboardCheckins);
+
+router.get('/gallery/:userId', { summary: 'Photo gallery of a user', query: galleryQuerySchema }, handleGalleryPhotos);
+
+router.get('/notifications/:userId', { summary: 'Notifications of a user', query: notificationsQuerySchema }, handleNotificationsList);
+router.post(
+  '/notifications/:userId',
+  { summary: 'Mark notifications as read', body: markNotificationsReadSchema },
+  requireAccess({ allow: ['self', 'bot', 'admin'], owner: ({ userId }) => userId }, handleNotificationsMarkRead)
+);
+router.put(
+  '/notifications/:userId',
+  { summary: 'Mark all notifications as read' },
+  requireAccess({ allow: ['self', 'bot', 'admin'], owner: ({ userId }) => userId }, handleNotificationsMarkAllRead)
+);
+
+router.get('/analytics/:userId', { summary: 'Workout analytics of a user', query: analyticsQuerySchema }, handleAnalyticsGet);
+
+// Entry point for every adapter (Vercel function, Express dev server)
+export const handleRequest = async (req: ApiRequest, res: ApiResponse) => {
+  if (handleCors(req, res)) {
+    return;
+  }
+
+  try {
+    return await router.handle(req, res);
+  } catch (error) {
+    console.error('API Error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+};
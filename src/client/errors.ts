@@ -0,0 +1,47 @@
+import type { ErrorCode } from '../lib/errors';
+
+export type { ErrorCode };
+
+// Raised for every non-2xx response; mirrors the createErrorResponse payload
+export interface ApiErrorBody {
+  error: string;
+  // UNEXPECTED_RESPONSE when the body wasn't an API error at all (proxy or gateway pages)
+  code: ErrorCode | 'UNEXPECTED_RESPONSE';
+  statusCode: number;
+  timestamp?: string;
+  // Present on 400s from schema validation
+  details?: { field: string; message: string; code?: ErrorCode }[];
+  // Present on 404s for unknown endpoints
+  suggestions?: string[];
+}
+
+export class WaddleApiError extends Error {
+  readonly status: number;
+  readonly body: ApiErrorBody;
+
+  constructor(status: number, body: ApiErrorBody) {
+    super(body.error);
+    this.name = 'WaddleApiError';
+    this.status = status;
+    this.body = body;
+  }
+
+  get code() {
+    return this.body.code;
+  }
+
+  get details() {
+    return this.body.details ?? [];
+  }
+}
+
+export const isWaddleApiError = (error: unknown, code?: ErrorCode): error is WaddleApiError =>
+  error instanceof WaddleApiError && (code === undefined || error.code === code);
+
+export const toApiErrorBody = (status: number, payload: unknown): ApiErrorBody => {
+  if (payload && typeof payload === 'object' && typeof (payload as ApiErrorBody).code === 'string') {
+    const body = payload as ApiErrorBody;
+    return { ...body, statusCode: body.statusCode ?? status };
+  }
+  return { error: `Request failed with status ${status}`, code: 'UNEXPECTED_RESPONSE', statusCode: status };
+};
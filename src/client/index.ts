@@ -0,0 +1,245 @@
+import crypto from 'crypto';
+import type {
+  CreateCheckInInput,
+  CreateCheerInput,
+  CreateScheduleInput,
+  CreateTemplateInput,
+  DiscordCheckInBatchInput,
+  DiscordCheckInEmbedInput,
+  DiscordCheckInInput,
+  DiscordDeleteCheckInInput,
+  DiscordCheerEmbedInput,
+  DiscordRestDayInput,
+  DiscordScheduleInput,
+  DiscordStreakFreezeInput,
+  DiscordUpdateCheckInInput,
+  DiscordUserInput,
+  DiscordWebhookInput,
+  FlexibleScheduleInput,
+  UpdateCheckInInput,
+  UpdateTemplateInput,
+  UpdateUserInput,
+} from '../lib/validation';
+import { NONCE_HEADER, SIGNATURE_HEADER, TIMESTAMP_HEADER, getSignedPayload, signBotRequest } from '../lib/signature';
+import { WaddleApiError, toApiErrorBody } from './errors';
+import type * as T from './types';
+
+export * from './errors';
+export * from './types';
+
+export interface WaddleClientOptions {
+  // Origin of the API, e.g. https://waddletracker-backend.vercel.app
+  baseUrl: string;
+  // Member JWT; a function is called per request so the caller can rotate tokens
+  token?: string | (() => string | undefined);
+  // BOT_AUTH_TOKEN shared with the server; needed for the /discord/* endpoints
+  botSecret?: string;
+  fetch?: typeof fetch;
+}
+
+type Auth = 'none' | 'user' | 'bot';
+type Query = Record<string, string | number | boolean | undefined>;
+
+interface RequestOptions {
+  auth?: Auth;
+  query?: Query;
+  body?: unknown;
+  idempotencyKey?: string;
+}
+
+// Every POST method takes these last. Send the same idempotencyKey when retrying a call
+// (e.g. after a timeout) and the server replays the first response instead of acting twice.
+export interface PostOptions {
+  idempotencyKey?: string;
+}
+
+const toQueryString = (query: Query = {}): string => {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) {
+      params.set(key, String(value));
+    }
+  }
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
+
+export const createWaddleClient = (options: WaddleClientOptions) => {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const fetchImpl = options.fetch ?? fetch;
+
+  const authHeaders = (auth: Auth, method: string, path: string, body: string): Record<string, string> => {
+    if (auth === 'user') {
+      const token = typeof options.token === 'function' ? options.token() : options.token;
+      if (!token) {
+        throw new Error('This endpoint needs a member token; pass `token` to createWaddleClient');
+      }
+      return { Authorization: `Bearer ${token}` };
+    }
+
+    if (auth === 'bot') {
+      if (!options.botSecret) {
+        throw new Error('This endpoint needs the bot secret; pass `botSecret` to createWaddleClient');
+      }
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      const nonce = crypto.randomUUID();
+      const signature = signBotRequest(options.botSecret, getSignedPayload(timestamp, nonce, method, path, body));
+      return { [SIGNATURE_HEADER]: signature, [TIMESTAMP_HEADER]: timestamp, [NONCE_HEADER]: nonce };
+    }
+
+    return {};
+  };
+
+  const send = (method: string, endpoint: string, { auth = 'none', query, body, idempotencyKey }: RequestOptions): Promise<Response> => {
+    const path = `/api${endpoint}${toQueryString(query)}`;
+    // The exact string sent is the one that gets signed
+    const payload = body === undefined ? '' : JSON.stringify(body);
+
+    return fetchImpl(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        ...(payload && { 'Content-Type': 'application/json' }),
+        ...(idempotencyKey && { 'Idempotency-Key': idempotencyKey }),
+        ...authHeaders(auth, method, path, payload),
+      },
+      body: payload || undefined,
+    });
+  };
+
+  // Sends one request and unwraps the createSuccessResponse envelope
+  const request = async <R>(method: string, endpoint: string, options: RequestOptions = {}): Promise<R> => {
+    const response = await send(method, endpoint, options);
+    const json: any = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new WaddleApiError(response.status, toApiErrorBody(response.status, json));
+    }
+    return json?.data as R;
+  };
+
+  // For endpoints that answer with a file rather than the envelope; errors still arrive as JSON
+  const download = async (endpoint: string, options: RequestOptions = {}): Promise<string> => {
+    const response = await send('GET', endpoint, options);
+    if (!response.ok) {
+      const json: any = await response.json().catch(() => null);
+      throw new WaddleApiError(response.status, toApiErrorBody(response.status, json));
+    }
+    return response.text();
+  };
+
+  const id = encodeURIComponent;
+
+  return {
+    auth: {
+      // Where to send a browser to start Discord login; the callback redirects to FRONTEND_URL with a token
+      loginUrl: () => `${baseUrl}/api/auth/discord`,
+      me: () => request<{ user: T.AccountUser }>('GET', '/auth/me', { auth: 'user' }),
+    },
+    users: {
+      get: (userId: string) => request<T.UserProfile>('GET', `/users/${id(userId)}`),
+      update: (userId: string, input: UpdateUserInput) =>
+        request<T.UpdatedUser>('PATCH', `/users/${id(userId)}`, { auth: 'user', body: input }),
+      photos: (userId: string) => request<T.PhotoListItem[]>('GET', `/users/${id(userId)}/photos`),
+      records: (userId: string) => request<T.PersonalRecord[]>('GET', `/users/${id(userId)}/records`),
+      // The file's text: JSON, CSV or iCalendar; only the member themselves may download it
+      export: (userId: string, params: T.ExportParams = {}) => download(`/users/${id(userId)}/export`, { auth: 'user', query: params }),
+    },
+    exercises: {
+      list: (params: T.ExercisesParams = {}) => request<T.Exercise[]>('GET', '/exercises', { query: params }),
+      history: (userId: string, exerciseId: string, params: T.ExerciseHistoryParams = {}) =>
+        request<T.ExerciseHistory>('GET', `/users/${id(userId)}/exercises/${id(exerciseId)}/history`, { query: params }),
+    },
+    checkins: {
+      create: (input: CreateCheckInInput, options: PostOptions = {}) => request<T.CheckInCreated>('POST', '/checkins', { auth: 'user', body: input, ...options }),
+      // Pass dry_run: true for the preview alone
+      import: (input: T.ImportCheckInsParams, options: PostOptions = {}) =>
+        request<T.CheckInImport>('POST', '/checkins/import', { auth: 'user', body: input, ...options }),
+      update: (checkinId: string, input: UpdateCheckInInput) =>
+        request<T.CheckInUpdated>('PATCH', `/checkins/${id(checkinId)}`, { auth: 'user', body: input }),
+      delete: (checkinId: string) => request<T.CheckInDeleted>('DELETE', `/checkins/${id(checkinId)}`, { auth: 'user' }),
+      list: (userId: string) => request<T.CheckInListItem[]>('GET', `/checkins/${id(userId)}`),
+      recent: (userId: string) => request<T.CheckInListItem[]>('GET', `/checkins/${id(userId)}/recent`),
+      photos: (userId: string) => request<T.CheckInListItem[]>('GET', `/checkins/${id(userId)}/photos`),
+    },
+    schedules: {
+      create: (input: CreateScheduleInput, options: PostOptions = {}) =>
+        request<{ schedule: Omit<T.Schedule, 'schedule_type' | 'rotation_pattern' | 'rest_days_allowed' | 'streak_mode' | 'weekly_goal' | 'rotation_templates' | 'current_rotation_day'> }>(
+          'POST', '/schedules', { auth: 'user', body: input, ...options }
+        ),
+      createFlexible: (input: FlexibleScheduleInput, options: PostOptions = {}) =>
+        request<T.ScheduleResult>('POST', '/schedules/flexible', { auth: 'user', body: input, ...options }),
+      get: (userId: string) => request<T.Schedule>('GET', `/schedules/${id(userId)}`),
+    },
+    templates: {
+      create: (input: CreateTemplateInput, options: PostOptions = {}) =>
+        request<T.WorkoutTemplate>('POST', '/templates', { auth: 'user', body: input, ...options }),
+      list: (params: T.TemplatesParams) => request<T.WorkoutTemplate[]>('GET', '/templates', { query: params }),
+      get: (templateId: string) => request<T.WorkoutTemplate>('GET', `/templates/${id(templateId)}`),
+      update: (templateId: string, input: UpdateTemplateInput) =>
+        request<T.WorkoutTemplate>('PATCH', `/templates/${id(templateId)}`, { auth: 'user', body: input }),
+      delete: (templateId: string) => request<{ template_id: string }>('DELETE', `/templates/${id(templateId)}`, { auth: 'user' }),
+    },
+    cheers: {
+      send: (input: CreateCheerInput, options: PostOptions = {}) => request<T.CheerSent>('POST', '/cheers', { auth: 'user', body: input, ...options }),
+      list: (userId: string) => request<T.CheerReceived[]>('GET', `/cheers/${id(userId)}`),
+    },
+    streaks: {
+      get: (userId: string) => request<T.StreakDetails>('GET', `/streak/${id(userId)}`),
+      history: (userId: string) => request<T.StreakHistory>('GET', `/streak/${id(userId)}/history`),
+      grantFreezes: (userId: string, input: T.GrantStreakFreezesParams = {}, options: PostOptions = {}) =>
+        request<T.StreakData>('POST', `/streak/${id(userId)}/freezes`, { auth: 'user', body: input, ...options }),
+    },
+    leaderboards: {
+      streaks: (params: T.StreakLeaderboardParams = {}) =>
+        request<T.StreakLeaderboard>('GET', '/leaderboard/streaks', { query: params }),
+      checkins: (params: T.CheckinLeaderboardParams = {}) =>
+        request<T.CheckinLeaderboard>('GET', '/leaderboard/checkins', { query: params }),
+    },
+    gallery: {
+      get: (userId: string, params: T.GalleryParams = {}) =>
+        request<T.Gallery>('GET', `/gallery/${id(userId)}`, { query: params }),
+    },
+    notifications: {
+      list: (userId: string, params: T.NotificationsParams = {}) =>
+        request<T.NotificationList>('GET', `/notifications/${id(userId)}`, { query: params }),
+      markRead: (userId: string, notificationIds: string[], options: PostOptions = {}) =>
+        request<T.UpdatedCount>('POST', `/notifications/${id(userId)}`, { auth: 'user', body: { notification_ids: notificationIds }, ...options }),
+      markAllRead: (userId: string) => request<T.UpdatedCount>('PUT', `/notifications/${id(userId)}`, { auth: 'user' }),
+    },
+    analytics: {
+      get: (userId: string, params: T.AnalyticsParams = {}) =>
+        request<T.Analytics>('GET', `/analytics/${id(userId)}`, { query: params }),
+    },
+    // Bot-only endpoints; every call is HMAC-signed with botSecret
+    discord: {
+      user: (discordId: string) => request<T.DiscordUserProfile>('GET', `/discord/user/${id(discordId)}`, { auth: 'bot' }),
+      register: (input: DiscordUserInput, options: PostOptions = {}) => request<T.DiscordRegistered>('POST', '/discord/register', { auth: 'bot', body: input, ...options }),
+      registerEmbed: (input: DiscordUserInput, options: PostOptions = {}) =>
+        request<T.DiscordRegisterEmbed>('POST', '/discord/register-embed', { auth: 'bot', body: input, ...options }),
+      checkin: (input: DiscordCheckInInput, options: PostOptions = {}) =>
+        request<T.DiscordCheckInResult>('POST', '/discord/checkin', { auth: 'bot', body: input, ...options }),
+      // Check-ins queued while the API was unreachable; resending a batch is safe, as each message logs once
+      checkinBatch: (input: DiscordCheckInBatchInput, options: PostOptions = {}) =>
+        request<T.DiscordCheckInBatchResult>('POST', '/discord/checkins/batch', { auth: 'bot', body: input, ...options }),
+      updateCheckin: (input: DiscordUpdateCheckInInput) =>
+        request<T.DiscordCheckInUpdated>('PATCH', '/discord/checkin', { auth: 'bot', body: input }),
+      deleteCheckin: (input: DiscordDeleteCheckInInput) =>
+        request<T.DiscordCheckInDeleted>('DELETE', '/discord/checkin', { auth: 'bot', body: input }),
+      restDay: (input: DiscordRestDayInput, options: PostOptions = {}) =>
+        request<T.DiscordCheckInResult>('POST', '/discord/rest-day', { auth: 'bot', body: input, ...options }),
+      schedule: (input: DiscordScheduleInput, options: PostOptions = {}) =>
+        request<T.DiscordScheduleResult>('POST', '/discord/schedule', { auth: 'bot', body: input, ...options }),
+      streakFreeze: (input: DiscordStreakFreezeInput, options: PostOptions = {}) =>
+        request<T.DiscordStreakFreezeResult>('POST', '/discord/streak-freeze', { auth: 'bot', body: input, ...options }),
+      checkinEmbed: (input: DiscordCheckInEmbedInput, options: PostOptions = {}) =>
+        request<T.DiscordCheckInEmbed>('POST', '/discord/checkin-embed', { auth: 'bot', body: input, ...options }),
+      profileEmbed: (discordId: string) =>
+        request<T.DiscordProfileEmbed>('GET', '/discord/profile-embed', { auth: 'bot', query: { discord_id: discordId } }),
+      cheerEmbed: (input: DiscordCheerEmbedInput, options: PostOptions = {}) =>
+        request<T.DiscordCheerEmbed>('POST', '/discord/cheer-embed', { auth: 'bot', body: input, ...options }),
+      webhook: (input: DiscordWebhookInput, options: PostOptions = {}) =>
+        request<T.DiscordWebhookResult>('POST', '/discord/webhook', { auth: 'bot', body: input, ...options }),
+    },
+  };
+};
+
+export type WaddleClient = ReturnType<typeof createWaddleClient>;
@@ -0,0 +1,570 @@
+import type { z } from 'zod';
+import type { ErrorCode } from '../lib/errors';
+import type { ExerciseEntryInput } from '../lib/validation';
+import type {
+  analyticsQuerySchema,
+  checkinLeaderboardQuerySchema,
+  exerciseHistoryQuerySchema,
+  exercisesQuerySchema,
+  exportQuerySchema,
+  galleryQuerySchema,
+  grantStreakFreezesSchema,
+  importCheckInsSchema,
+  notificationsQuerySchema,
+  streakLeaderboardQuerySchema,
+  templatesQuerySchema,
+} from '../lib/validation';
+
+// Response shapes of the API as seen over JSON, so dates arrive as ISO strings
+
+export type IsoDate = string;
+
+export type CheckInStatus = 'went' | 'missed' | 'rest';
+
+export type NotificationType = 'cheer' | 'reminder' | 'achievement' | 'system';
+
+// Query parameters as callers write them; the server fills in the defaults
+export type StreakLeaderboardParams = z.input<typeof streakLeaderboardQuerySchema>;
+export type CheckinLeaderboardParams = z.input<typeof checkinLeaderboardQuerySchema>;
+export type GalleryParams = z.input<typeof galleryQuerySchema>;
+export type NotificationsParams = Omit<z.input<typeof notificationsQuerySchema>, 'unread_only'> & { unread_only?: boolean };
+export type AnalyticsParams = z.input<typeof analyticsQuerySchema>;
+export type ExercisesParams = z.input<typeof exercisesQuerySchema>;
+export type ExerciseHistoryParams = z.input<typeof exerciseHistoryQuerySchema>;
+export type TemplatesParams = z.input<typeof templatesQuerySchema>;
+export type GrantStreakFreezesParams = z.input<typeof grantStreakFreezesSchema>;
+export type ImportCheckInsParams = z.input<typeof importCheckInsSchema>;
+export type ExportParams = z.input<typeof exportQuerySchema>;
+
+export interface UserSummary {
+  id: string;
+  username: string;
+  avatar_url: string | null;
+}
+
+export interface UserProfile {
+  id: string;
+  discord_id: string;
+  username: string;
+  avatar_url: string | null;
+  bio: string | null;
+  joined_at: IsoDate;
+  streak_count: number;
+  longest_streak: number;
+  total_checkins: number;
+}
+
+export interface AccountUser {
+  id: string;
+  discord_id: string;
+  username: string;
+  avatar_url: string | null;
+  bio: string | null;
+  timezone: string;
+  is_active: boolean;
+  created_at: IsoDate;
+  updated_at: IsoDate;
+}
+
+export interface UpdatedUser {
+  id: string;
+  username: string;
+  bio: string | null;
+  avatar_url: string | null;
+  timezone: string;
+}
+
+// One calendar day of the current streak and why it counted, was excused or broke it
+export interface StreakDay {
+  date: string; // YYYY-MM-DD in the member's timezone
+  scheduled: 'workout' | 'rest' | null;
+  checkin: CheckInStatus | null;
+  outcome: 'counted' | 'excused' | 'frozen' | 'pending' | 'broken';
+  reason: string;
+}
+
+// One Monday-to-Sunday week of a weekly-goal streak
+export interface StreakWeek {
+  week_start: string;
+  week_end: string;
+  workouts: number;
+  goal: number;
+  outcome: StreakDay['outcome'];
+  reason: string;
+}
+
+export type StreakMode = 'daily' | 'weekly_goal';
+
+export interface StreakData {
+  mode: StreakMode;
+  unit: 'days' | 'weeks';
+  current_streak: number;
+  longest_streak: number;
+  total_checkins: number;
+  streak_freezes: number;
+  freezable_day: string | null; // The day (or week's first day) that broke the streak, if a freeze would save it
+  days: StreakDay[]; // Daily mode
+  weeks: StreakWeek[]; // Weekly-goal mode
+}
+
+export interface CheckIn {
+  id: string;
+  user_id: string;
+  status: CheckInStatus;
+  workout_type: string | null;
+  notes: string | null;
+  photo_url: string | null;
+  duration_minutes: number | null;
+  calories_burned: number | null;
+  session_count: number; // Duration and calories are summed over the day's sessions
+  date: IsoDate;
+  created_at: IsoDate;
+}
+
+export interface WorkoutSession {
+  id: string;
+  checkin_id: string;
+  user_id: string;
+  workout_type: string | null;
+  notes: string | null;
+  photo_url: string | null;
+  duration_minutes: number | null;
+  calories_burned: number | null;
+  discord_message_id: string | null;
+  created_at: IsoDate;
+}
+
+export type WeightUnit = 'kg' | 'lb';
+
+export interface Exercise {
+  id: string;
+  name: string;
+  created_at: IsoDate;
+}
+
+export interface ExerciseSet {
+  set_number: number; // 1-based within the exercise, counting earlier sessions that day
+  reps: number;
+  weight: number | null; // null for bodyweight sets
+  unit: WeightUnit;
+  rpe: number | null;
+}
+
+// Every set of an exercise logged on the check-in's day
+export interface LoggedExercise {
+  exercise_id: string;
+  name: string;
+  sets: ExerciseSet[];
+}
+
+export interface ExerciseHistoryEntry {
+  checkin_id: string;
+  day: string; // 'YYYY-MM-DD'
+  sets: number;
+  total_reps: number;
+  volume: number; // Reps × weight; bodyweight sets add nothing
+  top_weight: number | null;
+  estimated_one_rep_max: number | null; // Epley, best set of the day
+}
+
+export interface ExerciseHistory {
+  user: { id: string; username: string };
+  exercise: { id: string; name: string };
+  unit: WeightUnit; // All weights are converted to this
+  history: ExerciseHistoryEntry[]; // Oldest first
+  summary: {
+    days: number;
+    total_sets: number;
+    total_reps: number;
+    best_volume: number | null;
+    best_top_weight: number | null;
+    best_estimated_one_rep_max: number | null;
+  };
+}
+
+export type RecordKind = 'longest_session' | 'most_calories' | 'heaviest_lift' | 'most_checkins_week';
+
+export interface PersonalRecord {
+  id: string;
+  kind: RecordKind;
+  label: string; // e.g. "Heaviest Bench Press"
+  exercise: { id: string; name: string } | null; // heaviest_lift only
+  value: number;
+  unit: 'minutes' | 'calories' | WeightUnit | 'checkins';
+  previous_value: number | null; // null for the first value stored
+  checkin_id: string | null;
+  day: string; // 'YYYY-MM-DD'; the week's Monday for most_checkins_week
+  achieved_at: IsoDate;
+}
+
+// A record beaten by a check-in; also sent as an achievement notification carrying the same embed
+export interface PersonalRecordAchieved {
+  record: PersonalRecord;
+  embed: DiscordEmbed;
+}
+
+export interface CheckInListItem {
+  id: string;
+  date: IsoDate;
+  status: CheckInStatus;
+  photo_url: string | null;
+  discord_message_id: string | null;
+  session_count: number;
+  created_at: IsoDate;
+  // Only in the full list; empty for check-ins logged before sessions were stored
+  sessions?: Pick<WorkoutSession, 'id' | 'workout_type' | 'photo_url' | 'duration_minutes' | 'calories_burned' | 'created_at'>[];
+}
+
+export interface PhotoListItem {
+  id: string;
+  photo_url: string;
+  date: IsoDate;
+  status: CheckInStatus;
+  created_at: IsoDate;
+}
+
+export interface CheckInCreated {
+  checkin: Omit<CheckIn, 'status'>;
+  session: WorkoutSession | null; // null for rest and missed days
+  exercises: LoggedExercise[];
+  streak: StreakData;
+  records: PersonalRecordAchieved[];
+}
+
+export interface ImportedWorkout {
+  source: string; // File name, with the track, activity or row
+  day: string; // 'YYYY-MM-DD' in the member's timezone
+  // new: becomes the day's check-in; session: another workout that day; duplicate: the day was logged already, skipped
+  status: 'new' | 'session' | 'duplicate';
+  workout_type: string | null;
+  duration_minutes: number | null;
+  calories_burned: number | null;
+  notes: string | null;
+}
+
+export interface CheckInImport {
+  dry_run: boolean;
+  summary: { workouts: number; new_days: number; sessions: number; duplicates: number; rejected: number };
+  workouts: ImportedWorkout[];
+  rejected: { source: string; reason: string }[];
+  // Not in dry runs
+  checkins?: (Pick<CheckIn, 'id' | 'workout_type' | 'duration_minutes' | 'calories_burned' | 'session_count'> & { day: string })[];
+  streak?: StreakData;
+}
+
+export interface CheckInUpdated {
+  checkin: CheckIn;
+  streak: StreakData;
+}
+
+export interface CheckInDeleted {
+  checkin_id: string;
+  streak: StreakData;
+}
+
+export interface StreakPeriod {
+  start_day: string;
+  end_day: string; // Last day that counted
+  length: number;
+  unit: 'days' | 'weeks';
+  ongoing: boolean;
+  break_day: string | null;
+  break_reason: string | null;
+}
+
+export interface StreakHistory {
+  current_streak: number;
+  longest_streak: number;
+  total_streaks: number;
+  best: StreakPeriod | null;
+  periods: StreakPeriod[];
+}
+
+export interface StreakDetails extends StreakData {
+  recent_checkins: { id: string; date: IsoDate; workout_type: string | null; notes: string | null }[];
+  last_checkin: { id: string; date: IsoDate; workout_type: string | null } | null;
+}
+
+export type ScheduleType = 'weekly' | 'rotating' | 'custom';
+
+export interface Schedule {
+  id: string;
+  user_id: string;
+  schedule_type: ScheduleType;
+  rotation_pattern: string | null;
+  monday: boolean;
+  tuesday: boolean;
+  wednesday: boolean;
+  thursday: boolean;
+  friday: boolean;
+  saturday: boolean;
+  sunday: boolean;
+  timezone: string;
+  reminder_time: string;
+  rest_days_allowed: boolean;
+  streak_mode: StreakMode;
+  weekly_goal: number | null;
+  rotation_templates: Record<string, string> | null; // Rotation label -> WorkoutTemplate id
+  current_rotation_day: number;
+  is_active: boolean;
+  created_at: IsoDate;
+  updated_at: IsoDate;
+}
+
+export interface ScheduleResult {
+  schedule: Schedule;
+  today_scheduled_type: 'workout' | 'rest' | null;
+  today_label: string | null; // Rotating schedules only
+  today_template: WorkoutTemplate | null;
+  message: string;
+}
+
+export interface PlannedExercise {
+  exercise_id: string;
+  name: string;
+  sets: number;
+  reps: number;
+  weight: number | null;
+  unit: WeightUnit;
+}
+
+export interface WorkoutTemplate {
+  id: string;
+  owner_id: string;
+  guild_id: string | null; // Shared with this Discord guild; private when null
+  name: string;
+  description: string | null;
+  workout_type: string | null;
+  duration_minutes: number | null;
+  exercises: PlannedExercise[];
+  created_at: IsoDate;
+  updated_at: IsoDate;
+}
+
+export interface Cheer {
+  id: string;
+  from_user_id: string;
+  to_user_id: string;
+  message: string | null;
+  type: string;
+  created_at: IsoDate;
+}
+
+export interface CheerSent {
+  cheer: Cheer & { sender: UserSummary | null };
+}
+
+export interface CheerReceived extends Cheer {
+  from_user: UserSummary;
+}
+
+export interface DiscordEmbed {
+  title?: string;
+  description?: string;
+  color?: number;
+  thumbnail?: { url: string };
+  image?: { url: string };
+  fields?: { name: string; value: string; inline?: boolean }[];
+  footer?: { text: string };
+  timestamp?: IsoDate;
+}
+
+export interface LeaderboardUser extends UserSummary {
+  discord_id: string;
+}
+
+export interface StreakLeaderboard {
+  leaderboard: {
+    rank: number;
+    user: LeaderboardUser;
+    streak_count: number;
+    longest_streak: number;
+    streak_unit: 'days' | 'weeks';
+    total_checkins: number;
+    joined_at: IsoDate;
+  }[];
+  embed: DiscordEmbed;
+}
+
+export interface CheckinLeaderboard {
+  leaderboard: {
+    rank: number;
+    user: LeaderboardUser;
+    checkin_count: number;
+    session_count: number;
+    streak_count: number;
+    longest_streak: number;
+    streak_unit: 'days' | 'weeks';
+    joined_at: IsoDate;
+  }[];
+  embed: DiscordEmbed;
+  period: string;
+}
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+  has_next: boolean;
+  has_prev: boolean;
+}
+
+export interface Gallery {
+  user: UserSummary & { streak_count: number; longest_streak: number; total_checkins: number };
+  photos: (CheckInListItem & { formatted_date: string; formatted_time: string })[];
+  pagination: Pagination;
+  filters: { status: string; year: number | 'all'; month: number | 'all' };
+  stats: { total_photos: number; went_photos: number; missed_photos: number };
+  filter_options: { years: number[]; months: number[]; statuses: string[] };
+}
+
+export interface Notification {
+  id: string;
+  user_id: string;
+  from_user_id: string | null;
+  type: NotificationType;
+  title: string;
+  message: string;
+  data: Record<string, unknown> | null;
+  read_at: IsoDate | null;
+  created_at: IsoDate;
+  from_user: UserSummary | null;
+}
+
+export interface NotificationList {
+  notifications: Notification[];
+  pagination: Pagination;
+  filters: { type: NotificationType | 'all'; unread_only: boolean };
+}
+
+export interface UpdatedCount {
+  updated_count: number;
+}
+
+export interface Analytics {
+  user: {
+    id: string;
+    username: string;
+    current_streak: number;
+    longest_streak: number;
+    total_checkins: number;
+    joined_at: IsoDate;
+  };
+  period: { days: number; start_date: IsoDate; end_date: IsoDate };
+  overview: {
+    total_checkins: number;
+    went_count: number;
+    missed_count: number;
+    photo_count: number;
+    attendance_rate: number;
+  };
+  sessions: {
+    total_sessions: number;
+    sessions_per_workout_day: number;
+    total_duration_minutes: number;
+    total_calories_burned: number;
+  };
+}
+
+export interface ProfileStats {
+  current_streak: number;
+  longest_streak: number;
+  total_checkins: number;
+  streak_freezes: number;
+  streak_unit: 'days' | 'weeks';
+  cheers_received: number;
+  cheers_sent: number;
+  days_since_joining: number;
+}
+
+export interface DiscordUserProfile {
+  user: AccountUser;
+  stats: ProfileStats;
+  recent_checkins: unknown[];
+}
+
+export interface DiscordCheckInResult {
+  embed: DiscordEmbed;
+  checkin: Partial<CheckIn> & Pick<CheckIn, 'id' | 'user_id' | 'status' | 'date' | 'created_at'>;
+  session?: WorkoutSession | null; // Check-ins only, not rest days
+  exercises?: LoggedExercise[]; // Check-ins only, not rest days
+  template?: WorkoutTemplate | null; // The template the check-in was prefilled from
+  suggested_exercises?: ExerciseEntryInput[]; // The template's planned sets when none were sent; not logged
+  streak: StreakData;
+  records?: PersonalRecordAchieved[]; // Check-ins only; post each embed after the check-in's
+}
+
+type BatchCheckIn = Pick<CheckIn, 'id' | 'user_id' | 'status' | 'workout_type' | 'session_count' | 'date'> & { day: string | null };
+
+// One queued check-in, matched to the request by its client_id
+export type DiscordCheckInBatchItem =
+  | { client_id: string; result: 'created'; checkin: BatchCheckIn; session_id: string | null; template: WorkoutTemplate | null; records: PersonalRecordAchieved[] }
+  | { client_id: string; result: 'duplicate'; checkin: BatchCheckIn } // Already logged from the same Discord message
+  | { client_id: string; result: 'rejected'; code: ErrorCode; error: string };
+
+export interface DiscordCheckInBatchResult {
+  summary: { created: number; duplicate: number; rejected: number };
+  results: DiscordCheckInBatchItem[]; // In request order
+  // Members with a check-in created; `streak` is null, with a code, when recomputing theirs failed
+  streaks: ({ discord_id: string; user_id: string; streak: StreakData } | { discord_id: string; user_id: string; streak: null; code: ErrorCode; error: string })[];
+}
+
+export interface DiscordRegistered {
+  user: UserSummary & { discord_id: string };
+  token: string;
+  message: string;
+  embed: DiscordEmbed;
+}
+
+export interface DiscordRegisterEmbed {
+  embed: DiscordEmbed;
+  components: unknown[];
+  user: { discord_id: string; username: string; avatar_url?: string };
+}
+
+export type DiscordScheduleResult =
+  | ScheduleResult
+  | { schedule: null; today_scheduled_type: null; today_label: null; today_template: null; message: string }
+  | { message: string };
+
+// `session_id` names the session the message logged when only it was corrected or removed
+export interface DiscordCheckInUpdated extends CheckInUpdated {
+  embed: DiscordEmbed;
+  session_id: string | null;
+}
+
+export interface DiscordCheckInDeleted extends CheckInDeleted {
+  embed: DiscordEmbed;
+  session_id: string | null;
+}
+
+export type DiscordStreakFreezeResult =
+  | { frozen_day: string; streak: StreakData; auto_streak_freeze: boolean; message: string }
+  | { streak: StreakData; auto_streak_freeze: boolean; message: string };
+
+export interface DiscordCheckInEmbed {
+  embed: DiscordEmbed;
+  user: UserSummary;
+  checkin: Pick<CheckIn, 'id' | 'workout_type' | 'notes' | 'photo_url' | 'duration_minutes' | 'calories_burned' | 'date'>;
+}
+
+export interface DiscordProfileEmbed {
+  embed: DiscordEmbed;
+  user: UserSummary & { bio: string | null };
+  stats: ProfileStats;
+}
+
+export interface DiscordCheerEmbed {
+  embed: DiscordEmbed;
+  cheer: Pick<Cheer, 'id' | 'message' | 'type' | 'created_at'>;
+  from_user: UserSummary;
+  to_user: UserSummary;
+}
+
+export interface DiscordWebhookResult {
+  success: true;
+  webhook_id: string;
+  event_type: string;
+  sent_at: IsoDate;
+}
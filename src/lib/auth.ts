@@ -1,5 +1,7 @@
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
-import { Request, Response, NextFunction } from 'express';
+import { ApiRequest } from './http';
+import { hasBotSignature, verifyBotSignature } from './signature';
 
 export interface AuthUser {
   id: string;
@@ -7,10 +9,17 @@ export interface AuthUser {
   username: string;
 }
 
+// Who is making a request: a signed-in member (possibly an admin) or the Discord bot
+export type Caller =
+  | { type: 'user'; user: AuthUser; isAdmin: boolean }
+  | { type: 'bot' };
+
 export const generateToken = (user: AuthUser): string => {
-  return jwt.sign(user, process.env.JWT_SECRET!, {
-    expiresIn: '7d',
-  });
+  return jwt.sign(
+    { id: user.id, discord_id: user.discord_id, username: user.username },
+    process.env.JWT_SECRET!,
+    { expiresIn: '7d' }
+  );
 };
 
 export const verifyToken = (token: string): AuthUser | null => {
@@ -21,27 +30,57 @@ export const verifyToken = (token: string): AuthUser | null => {
   }
 };
 
-export const authenticateToken = (req: Request, res: Response, next: NextFunction) => {
-  const authHeader = req.headers['authorization'];
-  const token = authHeader && authHeader.split(' ')[1];
+export type BotAuthResult = { valid: true } | { valid: false; reason: string };
+
+const safeEqual = (a: string, b: string): boolean => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
 
-  if (!token) {
-    return res.status(401).json({ error: 'Access token required' });
+// Verifies bot credentials; returns null when the request carries none.
+// Bots sign requests with BOT_AUTH_TOKEN. The plain X-Bot-Token header is only
+// accepted when BOT_AUTH_ALLOW_LEGACY=true.
+export const authenticateBot = (req: ApiRequest): BotAuthResult | null => {
+  const secret = process.env.BOT_AUTH_TOKEN;
+
+  if (hasBotSignature(req)) {
+    if (!secret) {
+      return { valid: false, reason: 'Bot authentication is not configured' };
+    }
+    return verifyBotSignature(req, secret);
+  }
+
+  const authHeader = req.headers.authorization;
+  const headerToken = req.headers['x-bot-token'];
+  const legacyToken = (Array.isArray(headerToken) ? headerToken[0] : headerToken)
+    || (authHeader?.startsWith('Bot ') ? authHeader.slice('Bot '.length) : undefined);
+
+  if (!legacyToken) {
+    return null;
   }
 
-  const user = verifyToken(token);
-  if (!user) {
-    return res.status(403).json({ error: 'Invalid or expired token' });
+  if (process.env.BOT_AUTH_ALLOW_LEGACY !== 'true') {
+    return { valid: false, reason: 'Plain bot tokens are disabled, sign the request instead' };
   }
 
-  req.user = user;
-  next();
+  if (!secret || !safeEqual(legacyToken, secret)) {
+    return { valid: false, reason: 'Invalid bot token' };
+  }
+
+  return { valid: true };
 };
 
-declare global {
-  namespace Express {
-    interface Request {
-      user?: AuthUser;
-    }
+// Admins are configured by Discord ID, e.g. ADMIN_DISCORD_IDS="1234,5678"
+export const isAdmin = (user: AuthUser): boolean => {
+  const adminIds = (process.env.ADMIN_DISCORD_IDS || '').split(',').map(id => id.trim()).filter(Boolean);
+  return adminIds.includes(user.discord_id);
+};
+
+export const getBearerToken = (req: ApiRequest): string | null => {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
   }
-}
+  return authHeader.split(' ')[1] || null;
+};
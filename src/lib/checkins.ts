@@ -0,0 +1,448 @@
+import { CheckIn, CheckInStatus, Prisma, WorkoutSession } from '@prisma/client';
+import { Db, prisma } from './prisma';
+import { Caller } from './auth';
+import { ErrorCode } from './errors';
+import { addExerciseSets, ResolvedExercise, resolveExercises } from './exercises';
+import { detectPersonalRecords, getCorrectedRecordKinds, PersonalRecordAchieved, RecordKind, retractPersonalRecords } from './records';
+import { PlannedWorkout } from './imports';
+import { refreshStreak, refreshStreakFrom, STREAK_TRANSACTION_TIMEOUT_MS, StreakData } from './streak';
+import { getDayRange, getLocalDate, getStartOfDay } from './timezone';
+import { getUserTimeZone } from './users';
+import { ExerciseEntryInput, UpdateCheckInInput } from './validation';
+
+const DEFAULT_LATE_LOGGING_HOURS = 48;
+const DEFAULT_QUEUED_LOGGING_HOURS = 168;
+
+const readHours = (configured: string | undefined, fallback: number): number => {
+  const hours = parseInt(configured || '', 10);
+  return isNaN(hours) || hours < 0 ? fallback : hours;
+};
+
+// How long after a day ends a check-in may still be logged for it
+const getLateLoggingHours = (): number => readHours(process.env.CHECKIN_LATE_LOGGING_HOURS, DEFAULT_LATE_LOGGING_HOURS);
+
+// How long after a day ends a check-in the bot queued while the API was unreachable may still be synced
+const getQueuedLoggingHours = (): number => readHours(process.env.CHECKIN_QUEUED_LOGGING_HOURS, DEFAULT_QUEUED_LOGGING_HOURS);
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface CheckInDay {
+  date: Date;
+  day: string; // 'YYYY-MM-DD' in the member's timezone
+  backdated: boolean;
+}
+
+// The calendar day a check-in at `date` (default now) is for. A bare 'YYYY-MM-DD' is that calendar day
+// in `timeZone` rather than UTC midnight: its start, or now when it is today.
+export const locateCheckInDay = (date: string | undefined, timeZone: string, now: Date = new Date()): CheckInDay => {
+  const today = getLocalDate(now, timeZone);
+  const day = !date ? today : DATE_ONLY.test(date) ? date : getLocalDate(new Date(date), timeZone);
+  const checkinDate = !date ? now : DATE_ONLY.test(date) ? (day === today ? now : getStartOfDay(day, timeZone)) : new Date(date);
+  return { date: checkinDate, day, backdated: day < today };
+};
+
+// Resolves the calendar day a check-in at `date` (default now) is for, and whether it may still be logged.
+// A queued check-in waited on the bot through the outage, so it gets the longer queued window instead.
+export async function resolveCheckInDay(userId: string, date?: string, queued = false): Promise<CheckInDay | { code: ErrorCode; error?: string }> {
+  const now = new Date();
+  const timeZone = await getUserTimeZone(userId);
+  const checkinDay = locateCheckInDay(date, timeZone, now);
+  const { day } = checkinDay;
+
+  if (day > getLocalDate(now, timeZone)) {
+    return { code: 'CHECKIN_DATE_IN_FUTURE' };
+  }
+
+  const hours = queued ? getQueuedLoggingHours() : getLateLoggingHours();
+  if (now.getTime() - getDayRange(day, timeZone).end.getTime() > hours * 60 * 60 * 1000) {
+    return { code: 'CHECKIN_TOO_LATE', error: `Check-ins can only be logged up to ${hours} hours after the day ends` };
+  }
+
+  return checkinDay;
+}
+
+type SessionFields = Pick<
+  Prisma.WorkoutSessionUncheckedCreateInput,
+  'workout_type' | 'notes' | 'photo_url' | 'duration_minutes' | 'calories_burned' | 'discord_message_id'
+>;
+
+type CheckInFields = SessionFields & { status: CheckInStatus };
+
+const toSession = ({ workout_type, notes, photo_url, duration_minutes, calories_burned, discord_message_id }: SessionFields) =>
+  ({ workout_type, notes, photo_url, duration_minutes, calories_burned, discord_message_id });
+
+// Sums an optional amount, staying null while neither side has one
+const addUp = (total: number | null, amount: number | null | undefined): number | null =>
+  total === null && amount == null ? null : (total ?? 0) + (amount ?? 0);
+
+type StoredCheckIn = { checkin: CheckIn; session: WorkoutSession | null; exercises: ResolvedExercise[]; records: PersonalRecordAchieved[] };
+
+// The check-in a Discord message already logged, as the check-in itself or a later session of its day
+const findMessageDuplicate = (tx: Db, userId: string, discordMessageId: string): Promise<CheckIn | null> =>
+  tx.checkIn.findFirst({
+    where: {
+      user_id: userId,
+      OR: [{ discord_message_id: discordMessageId }, { sessions: { some: { discord_message_id: discordMessageId } } }],
+    },
+  });
+
+// Stores a check-in for its calendar day. A workout on a day that already has one becomes another session
+// of that day's check-in; any other second check-in gets ALREADY_CHECKED_IN. A Discord message that already
+// logged one comes back as the `duplicate` instead of adding a session. `exercises` are looked up (new names
+// join the catalogue with the check-in) and stored as sets of the new session, and any personal bests it set
+// are recorded.
+const storeCheckIn = async (
+  tx: Db,
+  userId: string,
+  { date, day }: CheckInDay,
+  fields: CheckInFields,
+  entries: ExerciseEntryInput[]
+): Promise<StoredCheckIn | { duplicate: CheckIn } | { code: ErrorCode; error?: string }> => {
+  const duplicate = fields.discord_message_id ? await findMessageDuplicate(tx, userId, fields.discord_message_id) : null;
+  if (duplicate) {
+    return { duplicate };
+  }
+
+  const existing = await tx.checkIn.findUnique({ where: { user_id_day: { user_id: userId, day } } });
+  if (existing && (existing.status !== 'went' || fields.status !== 'went')) {
+    return { code: 'ALREADY_CHECKED_IN' };
+  }
+
+  // Before anything is written, so an unknown exercise leaves the day as it was
+  const exercises = entries.length > 0 ? await resolveExercises(entries, tx) : [];
+  if ('code' in exercises) {
+    return exercises;
+  }
+
+  let checkin: CheckIn;
+  let session: WorkoutSession | null = null;
+  if (existing) {
+
+    // Check-ins from before sessions were stored are their own first session
+    if (await tx.workoutSession.count({ where: { checkin_id: existing.id } }) === 0) {
+      await tx.workoutSession.create({
+        data: { checkin_id: existing.id, user_id: userId, created_at: existing.created_at, ...toSession(existing) },
+      });
+    }
+
+    session = await tx.workoutSession.create({ data: { checkin_id: existing.id, user_id: userId, ...toSession(fields) } });
+    checkin = await tx.checkIn.update({
+      where: { id: existing.id },
+      data: {
+        session_count: { increment: 1 },
+        duration_minutes: addUp(existing.duration_minutes, fields.duration_minutes),
+        calories_burned: addUp(existing.calories_burned, fields.calories_burned),
+        photo_url: existing.photo_url ?? fields.photo_url,
+      },
+    });
+  } else {
+    checkin = await tx.checkIn.create({ data: { ...fields, user_id: userId, date, day } });
+    if (fields.status === 'went') {
+      session = await tx.workoutSession.create({ data: { checkin_id: checkin.id, user_id: userId, ...toSession(fields) } });
+    }
+  }
+
+  if (exercises.length > 0) {
+    await addExerciseSets(tx, { checkinId: checkin.id, sessionId: session?.id ?? null, userId }, exercises);
+  }
+
+  const records = session ? await detectPersonalRecords(tx, userId, checkin, session) : [];
+  return { checkin, session, exercises, records };
+};
+
+// Stores a check-in (see storeCheckIn) and refreshes the streak in the same transaction; the streak counts
+// a day with several sessions once. Losing a race for the day's first check-in, or resending a Discord
+// message that was logged already, gets ALREADY_CHECKED_IN.
+export async function logCheckIn(
+  userId: string,
+  checkinDay: CheckInDay,
+  fields: CheckInFields,
+  exercises: ExerciseEntryInput[] = []
+): Promise<StoredCheckIn & { streak: StreakData } | { code: ErrorCode; error?: string }> {
+  try {
+    return await prisma.$transaction(async tx => {
+      const stored = await storeCheckIn(tx, userId, checkinDay, fields, exercises);
+      if ('code' in stored) {
+        return stored;
+      }
+      if ('duplicate' in stored) {
+        return { code: 'ALREADY_CHECKED_IN' as const };
+      }
+
+      // A backdated day is rebuilt forward from that day
+      const { day, backdated } = checkinDay;
+      const streak = backdated ? await refreshStreakFrom(userId, day, tx) : await refreshStreak(userId, tx);
+      return { ...stored, streak };
+    }, { timeout: STREAK_TRANSACTION_TIMEOUT_MS });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return { code: 'ALREADY_CHECKED_IN' };
+    }
+    throw error;
+  }
+}
+
+// Stores a check-in the bot queued while offline, leaving the streak for the caller to refresh once the whole
+// batch is in. One the member already logged from the same Discord message comes back as the `duplicate`.
+export async function logQueuedCheckIn(
+  userId: string,
+  checkinDay: CheckInDay,
+  fields: CheckInFields & { discord_message_id: string },
+  exercises: ExerciseEntryInput[] = []
+): Promise<StoredCheckIn | { duplicate: CheckIn } | { code: ErrorCode; error?: string }> {
+  try {
+    return await prisma.$transaction(
+      tx => storeCheckIn(tx, userId, checkinDay, fields, exercises),
+      { timeout: STREAK_TRANSACTION_TIMEOUT_MS }
+    );
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return { code: 'ALREADY_CHECKED_IN' };
+    }
+    throw error;
+  }
+}
+
+// Imports can log hundreds of days at once
+const IMPORT_TRANSACTION_TIMEOUT_MS = 60000;
+
+// Logs imported workouts grouped by day: each day's first is its check-in, the rest are its sessions.
+// The streak is recomputed once, from the earliest day, after every day is in. A day logged meanwhile
+// fails the whole import with ALREADY_CHECKED_IN, so a retry skips it as a duplicate instead.
+export async function logImportedWorkouts(
+  userId: string,
+  workouts: PlannedWorkout[]
+): Promise<{ checkins: CheckIn[]; streak: StreakData } | { code: ErrorCode }> {
+  const byDay = new Map<string, PlannedWorkout[]>();
+  for (const workout of workouts.filter(workout => workout.status !== 'duplicate')) {
+    byDay.set(workout.day, [...(byDay.get(workout.day) ?? []), workout]);
+  }
+
+  try {
+    return await prisma.$transaction(async tx => {
+      const checkins: CheckIn[] = [];
+      for (const [day, sessions] of byDay) {
+        const [first] = sessions;
+        const checkin = await tx.checkIn.create({
+          data: {
+            ...toSession(first),
+            user_id: userId,
+            status: 'went',
+            date: first.checkin_date,
+            day,
+            session_count: sessions.length,
+            duration_minutes: sessions.reduce<number | null>((total, session) => addUp(total, session.duration_minutes), null),
+            calories_burned: sessions.reduce<number | null>((total, session) => addUp(total, session.calories_burned), null),
+          },
+        });
+        await tx.workoutSession.createMany({
+          data: sessions.map(session => ({ checkin_id: checkin.id, user_id: userId, created_at: session.checkin_date, ...toSession(session) })),
+        });
+        checkins.push(checkin);
+      }
+
+      const streak = byDay.size > 0 ? await refreshStreakFrom(userId, [...byDay.keys()], tx) : await refreshStreak(userId, tx);
+      return { checkins, streak };
+    }, { timeout: IMPORT_TRANSACTION_TIMEOUT_MS });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return { code: 'ALREADY_CHECKED_IN' };
+    }
+    throw error;
+  }
+}
+
+type AuditActor = { actor_type: 'user' | 'admin' | 'bot'; actor_id: string | null };
+
+// Admins are recorded as admins only when they change someone else's check-in
+const toAuditActor = (caller: Caller, ownerId: string): AuditActor => {
+  if (caller.type === 'bot') {
+    return { actor_type: 'bot', actor_id: null };
+  }
+  return {
+    actor_type: caller.isAdmin && caller.user.id !== ownerId ? 'admin' : 'user',
+    actor_id: caller.user.id,
+  };
+};
+
+// The audited copy of a check-in, with dates as ISO strings
+const snapshot = (checkin: CheckIn): Prisma.InputJsonObject => ({
+  ...checkin,
+  date: checkin.date.toISOString(),
+  created_at: checkin.created_at.toISOString(),
+  updated_at: checkin.updated_at.toISOString(),
+});
+
+// Resolves the owner for access checks on /checkins/:id
+export const getCheckInOwner = async (id: string): Promise<string | null> => {
+  const checkin = await prisma.checkIn.findUnique({ where: { id }, select: { user_id: true } });
+  return checkin?.user_id ?? null;
+};
+
+// Corrections to these describe the day's sessions; on a day with one session they are that session's too
+const SESSION_CHANGE_FIELDS = ['workout_type', 'notes', 'photo_url', 'duration_minutes', 'calories_burned'] as const;
+
+export type SessionChanges = Pick<UpdateCheckInInput, (typeof SESSION_CHANGE_FIELDS)[number]>;
+
+// Records the day set no longer stand as they were; whatever it still beats is recorded again
+const correctPersonalRecords = async (tx: Db, checkin: CheckIn, kinds: RecordKind[]) => {
+  if (kinds.length === 0) {
+    return;
+  }
+  await retractPersonalRecords(tx, checkin.id, kinds);
+  for (const session of await tx.workoutSession.findMany({ where: { checkin_id: checkin.id }, orderBy: { created_at: 'asc' } })) {
+    await detectPersonalRecords(tx, checkin.user_id, checkin, session);
+  }
+};
+
+// Brings a check-in's summary in line with its sessions: the first one's type, notes and message, the first
+// photo, the summed duration and calories, and the session count
+const summarizeSessions = async (tx: Db, checkin: CheckIn): Promise<CheckIn> => {
+  const sessions = await tx.workoutSession.findMany({ where: { checkin_id: checkin.id }, orderBy: { created_at: 'asc' } });
+  const [first] = sessions;
+  return tx.checkIn.update({
+    where: { id: checkin.id },
+    data: {
+      workout_type: first.workout_type,
+      notes: first.notes,
+      discord_message_id: first.discord_message_id,
+      photo_url: sessions.find(session => session.photo_url)?.photo_url ?? null,
+      duration_minutes: sessions.reduce<number | null>((total, session) => addUp(total, session.duration_minutes), null),
+      calories_burned: sessions.reduce<number | null>((total, session) => addUp(total, session.calories_burned), null),
+      session_count: sessions.length,
+    },
+  });
+};
+
+// Recomputes the streak after a check-in's day was corrected; from the day itself when it is past, so
+// freezes spent around it are weighed again
+const refreshCorrectedStreak = async (tx: Db, checkin: CheckIn): Promise<StreakData> => {
+  const timeZone = await getUserTimeZone(checkin.user_id, tx);
+  const day = checkin.day ?? getLocalDate(checkin.date, timeZone);
+  return day < getLocalDate(new Date(), timeZone)
+    ? refreshStreakFrom(checkin.user_id, day, tx)
+    : refreshStreak(checkin.user_id, tx);
+};
+
+// Applies `changes` and records the edit. The sessions follow: a single session takes the same corrections,
+// leaving 'went' removes the sessions and their sets, and becoming 'went' starts the first session. A day
+// with several sessions sums them, so only its status can be corrected (CHECKIN_MULTIPLE_SESSIONS). Records
+// the correction touches are detected again, and the streak is recomputed since status changes can make or
+// break it, from the day itself when it is past.
+export async function updateCheckIn(
+  checkin: CheckIn,
+  changes: UpdateCheckInInput,
+  caller: Caller
+): Promise<{ checkin: CheckIn; streak: StreakData } | { code: ErrorCode }> {
+  return prisma.$transaction(async tx => {
+    const sessions = await tx.workoutSession.findMany({ where: { checkin_id: checkin.id }, select: { id: true } });
+    const sessionChanges = Object.fromEntries(
+      SESSION_CHANGE_FIELDS.filter(field => changes[field] !== undefined).map(field => [field, changes[field]])
+    );
+    const changesSessions = Object.keys(sessionChanges).length > 0;
+    if (sessions.length > 1 && changesSessions) {
+      return { code: 'CHECKIN_MULTIPLE_SESSIONS' as const };
+    }
+
+    let next = await tx.checkIn.update({ where: { id: checkin.id }, data: changes });
+    if (next.status !== 'went') {
+      if (checkin.status === 'went') {
+        // Sets cascade with their session; check-ins from before sessions were stored hold them directly
+        await tx.workoutSession.deleteMany({ where: { checkin_id: checkin.id } });
+        await tx.exerciseSet.deleteMany({ where: { checkin_id: checkin.id } });
+        next = await tx.checkIn.update({ where: { id: checkin.id }, data: { session_count: 1 } });
+      }
+    } else if (checkin.status !== 'went') {
+      await tx.workoutSession.create({ data: { checkin_id: checkin.id, user_id: checkin.user_id, ...toSession(next) } });
+    } else if (sessions.length === 1 && changesSessions) {
+      await tx.workoutSession.update({ where: { id: sessions[0].id }, data: sessionChanges });
+    }
+
+    await correctPersonalRecords(tx, next, getCorrectedRecordKinds(checkin, next));
+
+    await tx.checkInAudit.create({
+      data: {
+        checkin_id: checkin.id,
+        user_id: checkin.user_id,
+        action: 'update',
+        ...toAuditActor(caller, checkin.user_id),
+        before: snapshot(checkin),
+        after: snapshot(next),
+      },
+    });
+
+    return { checkin: next, streak: await refreshCorrectedStreak(tx, checkin) };
+  }, { timeout: STREAK_TRANSACTION_TIMEOUT_MS });
+}
+
+// Deletes a check-in, keeping its last state in the audit trail, retracts the records it set, and recomputes
+// the streak and totals, from the day when it is past
+export async function deleteCheckIn(checkin: CheckIn, caller: Caller): Promise<StreakData> {
+  return prisma.$transaction(async tx => {
+    await tx.checkIn.delete({ where: { id: checkin.id } });
+    await retractPersonalRecords(tx, checkin.id);
+    await tx.checkInAudit.create({
+      data: {
+        checkin_id: checkin.id,
+        user_id: checkin.user_id,
+        action: 'delete',
+        ...toAuditActor(caller, checkin.user_id),
+        before: snapshot(checkin),
+      },
+    });
+    return refreshCorrectedStreak(tx, checkin);
+  }, { timeout: STREAK_TRANSACTION_TIMEOUT_MS });
+}
+
+// Corrects one session of a day with several, e.g. the one a Discord message logged. The day's summary is
+// summed up again and the correction recorded against the check-in.
+export async function updateSession(
+  checkin: CheckIn,
+  session: WorkoutSession,
+  changes: SessionChanges,
+  caller: Caller
+): Promise<{ checkin: CheckIn; streak: StreakData }> {
+  return prisma.$transaction(async tx => {
+    await tx.workoutSession.update({ where: { id: session.id }, data: changes });
+    const next = await summarizeSessions(tx, checkin);
+    await correctPersonalRecords(tx, next, getCorrectedRecordKinds(checkin, next));
+
+    await tx.checkInAudit.create({
+      data: {
+        checkin_id: checkin.id,
+        user_id: checkin.user_id,
+        action: 'update',
+        ...toAuditActor(caller, checkin.user_id),
+        before: snapshot(checkin),
+        after: snapshot(next),
+      },
+    });
+    return { checkin: next, streak: await refreshStreak(checkin.user_id, tx) };
+  }, { timeout: STREAK_TRANSACTION_TIMEOUT_MS });
+}
+
+// Removes one session of a day with several, with its sets; the day keeps its check-in and the rest of its
+// sessions. The records the day set are checked again without it.
+export async function deleteSession(
+  checkin: CheckIn,
+  session: WorkoutSession,
+  caller: Caller
+): Promise<{ checkin: CheckIn; streak: StreakData }> {
+  return prisma.$transaction(async tx => {
+    await tx.workoutSession.delete({ where: { id: session.id } });
+    const next = await summarizeSessions(tx, checkin);
+    await correctPersonalRecords(tx, next, ['longest_session', 'most_calories', 'heaviest_lift']);
+
+    await tx.checkInAudit.create({
+      data: {
+        checkin_id: checkin.id,
+        user_id: checkin.user_id,
+        action: 'update',
+        ...toAuditActor(caller, checkin.user_id),
+        before: snapshot(checkin),
+        after: snapshot(next),
+      },
+    });
+    return { checkin: next, streak: await refreshStreak(checkin.user_id, tx) };
+  }, { timeout: STREAK_TRANSACTION_TIMEOUT_MS });
+}
@@ -0,0 +1,66 @@
+import { ApiResponse } from './http';
+
+// Stable, machine-readable error codes. Clients branch on `code`; `error` is for humans and may change.
+// Each code owns its HTTP status, so the response status and the body can't disagree.
+export const ERROR_CODES = {
+  // Request shape
+  VALIDATION_FAILED: { status: 400, message: 'Validation failed' },
+  SCHEDULE_INVALID_PATTERN: { status: 400, message: 'Invalid rotation pattern' },
+  SCHEDULE_NO_DAYS: { status: 400, message: 'At least one day must be selected' },
+  SCHEDULE_INVALID_ACTION: { status: 400, message: 'Invalid action. Use: create, update, get, or delete' },
+  CANNOT_CHEER_SELF: { status: 400, message: 'Cannot send cheer to yourself' },
+  DISCORD_OAUTH_FAILED: { status: 400, message: 'Discord authorization failed' },
+  STREAK_FREEZE_NOT_NEEDED: { status: 400, message: 'There is no missed day to cover with a streak freeze' },
+  CHECKIN_DATE_IN_FUTURE: { status: 400, message: 'Check-ins cannot be logged for a future day' },
+  CHECKIN_TOO_LATE: { status: 400, message: 'That day is too far back to log a check-in for' },
+  IMPORT_TOO_LARGE: { status: 400, message: 'Too many workouts in one import' },
+  IDEMPOTENCY_KEY_INVALID: { status: 400, message: 'Invalid Idempotency-Key header' },
+
+  // Authentication and access
+  AUTH_REQUIRED: { status: 401, message: 'Authorization header required' },
+  INVALID_TOKEN: { status: 401, message: 'Invalid or expired token' },
+  BOT_AUTH_FAILED: { status: 401, message: 'Bot authentication failed' },
+  FORBIDDEN: { status: 403, message: 'You do not have access to this resource' },
+  USER_TOKEN_REQUIRED: { status: 403, message: 'This endpoint requires a user token' },
+
+  // Missing resources
+  ENDPOINT_NOT_FOUND: { status: 404, message: 'Endpoint not found' },
+  USER_NOT_FOUND: { status: 404, message: 'User not found' },
+  USER_NOT_REGISTERED: { status: 404, message: 'User not found - not registered' },
+  RECIPIENT_NOT_FOUND: { status: 404, message: 'Recipient user not found' },
+  SCHEDULE_NOT_FOUND: { status: 404, message: 'Schedule not found' },
+  CHECKIN_NOT_FOUND: { status: 404, message: 'No check-in found' },
+  CHEER_NOT_FOUND: { status: 404, message: 'Cheer not found' },
+  EXERCISE_NOT_FOUND: { status: 404, message: 'Exercise not found' },
+  TEMPLATE_NOT_FOUND: { status: 404, message: 'Workout template not found' },
+  METHOD_NOT_ALLOWED: { status: 405, message: 'Method not allowed' },
+
+  // Conflicts with existing state
+  ALREADY_CHECKED_IN: { status: 409, message: 'User has already checked in on that day' },
+  USER_ALREADY_REGISTERED: { status: 409, message: 'User already registered' },
+  NO_STREAK_FREEZES: { status: 409, message: 'No streak freezes left' },
+  CHECKIN_MULTIPLE_SESSIONS: { status: 409, message: 'This day has several sessions; only its status can be corrected' },
+  IDEMPOTENCY_REQUEST_IN_PROGRESS: { status: 409, message: 'A request with this Idempotency-Key is still being processed' },
+  IDEMPOTENCY_KEY_REUSED: { status: 422, message: 'This Idempotency-Key was already used for a different request' },
+
+  // Failures on our side or upstream
+  INTERNAL_ERROR: { status: 500, message: 'Internal server error' },
+  WEBHOOK_DELIVERY_FAILED: { status: 502, message: 'Failed to send webhook to Discord' },
+} as const;
+
+export type ErrorCode = keyof typeof ERROR_CODES;
+
+export const isErrorCode = (value: unknown): value is ErrorCode =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(ERROR_CODES, value);
+
+// Error response helper
+export const createErrorResponse = (code: ErrorCode, message: string = ERROR_CODES[code].message) => ({
+  error: message,
+  code,
+  statusCode: ERROR_CODES[code].status,
+  timestamp: new Date().toISOString(),
+});
+
+// Sends an error with the status its code is registered under; `extra` adds fields such as validation details
+export const sendError = (res: ApiResponse, code: ErrorCode, message?: string, extra: Record<string, unknown> = {}) =>
+  res.status(ERROR_CODES[code].status).json({ ...createErrorResponse(code, message), ...extra });
@@ -0,0 +1,182 @@
+import { Exercise, ExerciseSet, Prisma } from '@prisma/client';
+import { Db, prisma } from './prisma';
+import { ErrorCode } from './errors';
+import { getLocalDate } from './timezone';
+import { getUserTimeZone } from './users';
+import { ExerciseEntryInput } from './validation';
+
+export type WeightUnit = 'kg' | 'lb';
+
+const LB_PER_KG = 2.20462;
+
+// Catalogue names match regardless of case and spacing
+export const toExerciseSlug = (name: string): string => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export interface ResolvedExercise {
+  exercise: Exercise;
+  sets: ExerciseEntryInput['sets'];
+}
+
+// Looks up an exercise by id, or by name, adding the name to the catalogue on first use. The insert skips
+// a name another request added meanwhile and reads it back; failing instead would also abort a surrounding
+// transaction.
+export async function findOrCreateExercise(
+  { exercise_id, name }: { exercise_id?: string; name?: string },
+  db: Db = prisma
+): Promise<Exercise | { code: ErrorCode; error?: string }> {
+  if (exercise_id) {
+    const exercise = await db.exercise.findUnique({ where: { id: exercise_id } });
+    return exercise ?? { code: 'EXERCISE_NOT_FOUND', error: `Exercise ${exercise_id} not found` };
+  }
+
+  const slug = toExerciseSlug(name!);
+  await db.exercise.createMany({ data: [{ name: name!.trim().replace(/\s+/g, ' '), slug }], skipDuplicates: true });
+  return db.exercise.findUniqueOrThrow({ where: { slug } });
+}
+
+// Looks up the logged exercises; ids must exist, names are added to the catalogue on first use. Ids are
+// checked first, so an unknown one adds no names. Given a transaction as `db`, new names commit with it.
+export async function resolveExercises(
+  entries: ExerciseEntryInput[],
+  db: Db = prisma
+): Promise<ResolvedExercise[] | { code: ErrorCode; error?: string }> {
+  const ids = entries.flatMap(entry => entry.exercise_id ? [entry.exercise_id] : []);
+  if (ids.length > 0) {
+    const known = await db.exercise.findMany({ where: { id: { in: ids } }, select: { id: true } });
+    const unknown = ids.find(id => !known.some(exercise => exercise.id === id));
+    if (unknown) {
+      return { code: 'EXERCISE_NOT_FOUND', error: `Exercise ${unknown} not found` };
+    }
+  }
+
+  const resolved: ResolvedExercise[] = [];
+  for (const { sets, ...entry } of entries) {
+    const exercise = await findOrCreateExercise(entry, db);
+    if ('code' in exercise) {
+      return exercise;
+    }
+    resolved.push({ exercise, sets });
+  }
+  return resolved;
+}
+
+// Stores the sets of a check-in, numbered per exercise after any logged earlier that day
+export async function addExerciseSets(
+  db: Db,
+  { checkinId, sessionId, userId }: { checkinId: string; sessionId: string | null; userId: string },
+  exercises: ResolvedExercise[]
+): Promise<void> {
+  const data: Prisma.ExerciseSetCreateManyInput[] = [];
+  for (const { exercise, sets } of exercises) {
+    const logged = await db.exerciseSet.count({ where: { checkin_id: checkinId, exercise_id: exercise.id } })
+      + data.filter(set => set.exercise_id === exercise.id).length;
+    sets.forEach((set, index) => data.push({
+      checkin_id: checkinId,
+      session_id: sessionId,
+      user_id: userId,
+      exercise_id: exercise.id,
+      set_number: logged + index + 1,
+      reps: set.reps,
+      weight: set.weight ?? null,
+      unit: set.unit ?? 'kg',
+      rpe: set.rpe ?? null,
+    }));
+  }
+  if (data.length > 0) {
+    await db.exerciseSet.createMany({ data });
+  }
+}
+
+// The sets of a check-in grouped by exercise, in the order they were logged
+export async function getCheckInExercises(checkinId: string, db: Db = prisma) {
+  const sets = await db.exerciseSet.findMany({
+    where: { checkin_id: checkinId },
+    include: { exercise: true },
+    orderBy: [{ created_at: 'asc' }, { set_number: 'asc' }],
+  });
+
+  const grouped = new Map<string, { exercise: { id: string; name: string }; sets: ExerciseSet[] }>();
+  for (const { exercise, ...set } of sets) {
+    const entry = grouped.get(exercise.id) ?? { exercise: { id: exercise.id, name: exercise.name }, sets: [] };
+    entry.sets.push(set);
+    grouped.set(exercise.id, entry);
+  }
+  return [...grouped.values()].map(({ exercise, sets }) => ({
+    exercise_id: exercise.id,
+    name: exercise.name,
+    sets: sets.map(({ set_number, reps, weight, unit, rpe }) => ({ set_number, reps, weight, unit, rpe })),
+  }));
+}
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+export const convertWeight = (weight: number, from: string, to: WeightUnit): number =>
+  from === to ? weight : to === 'lb' ? weight * LB_PER_KG : weight / LB_PER_KG;
+
+// Epley estimate of the heaviest single from a set; a single is its own one-rep max
+const estimateOneRepMax = (weight: number, reps: number): number => reps === 1 ? weight : weight * (1 + reps / 30);
+
+// Per-day progress on one exercise, oldest first, with weights converted to `unit`. Volume is reps × weight,
+// so bodyweight sets add to reps but not volume.
+export async function getExerciseHistory(userId: string, exerciseId: string, unit: WeightUnit) {
+  const sets = await prisma.exerciseSet.findMany({
+    where: { user_id: userId, exercise_id: exerciseId },
+    include: { checkin: { select: { day: true, date: true } } },
+    orderBy: [{ checkin: { date: 'asc' } }, { created_at: 'asc' }, { set_number: 'asc' }],
+  });
+
+  const timeZone = await getUserTimeZone(userId);
+  const days = new Map<string, {
+    checkin_id: string;
+    day: string;
+    sets: number;
+    total_reps: number;
+    volume: number;
+    top_weight: number | null;
+    estimated_one_rep_max: number | null;
+  }>();
+  for (const set of sets) {
+    const day = set.checkin.day ?? getLocalDate(set.checkin.date, timeZone);
+    const entry = days.get(set.checkin_id) ?? {
+      checkin_id: set.checkin_id,
+      day,
+      sets: 0,
+      total_reps: 0,
+      volume: 0,
+      top_weight: null,
+      estimated_one_rep_max: null,
+    };
+    entry.sets++;
+    entry.total_reps += set.reps;
+    if (set.weight !== null) {
+      const weight = convertWeight(set.weight, set.unit, unit);
+      entry.volume += set.reps * weight;
+      entry.top_weight = Math.max(entry.top_weight ?? 0, weight);
+      entry.estimated_one_rep_max = Math.max(entry.estimated_one_rep_max ?? 0, estimateOneRepMax(weight, set.reps));
+    }
+    days.set(set.checkin_id, entry);
+  }
+
+  const history = [...days.values()].map(entry => ({
+    ...entry,
+    volume: round(entry.volume),
+    top_weight: entry.top_weight === null ? null : round(entry.top_weight),
+    estimated_one_rep_max: entry.estimated_one_rep_max === null ? null : round(entry.estimated_one_rep_max),
+  }));
+
+  const best = <K extends 'volume' | 'top_weight' | 'estimated_one_rep_max'>(key: K) =>
+    history.reduce<number | null>((max, entry) => entry[key] === null ? max : Math.max(max ?? 0, entry[key]!), null);
+
+  return {
+    unit,
+    history,
+    summary: {
+      days: history.length,
+      total_sets: sets.length,
+      total_reps: history.reduce((sum, entry) => sum + entry.total_reps, 0),
+      best_volume: best('volume'),
+      best_top_weight: best('top_weight'),
+      best_estimated_one_rep_max: best('estimated_one_rep_max'),
+    },
+  };
+}
@@ -0,0 +1,290 @@
+import { CheckIn, Schedule } from '@prisma/client';
+import { prisma } from './prisma';
+import { addDays, getLocalDate, getWeekday } from './timezone';
+import { getUserTimeZone } from './users';
+
+// A member's data taken elsewhere. Tables are read a batch at a time and written out as they
+// arrive, so a long history never sits in memory whole:
+//   json: one object with the profile, the schedule and an array per table
+//   csv:  one section per table, each a header row and its rows, separated by a blank line
+//   ics:  check-ins as all-day events, and the schedule's workout days as recurring ones
+
+export type ExportFormat = 'json' | 'csv' | 'ics';
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  ics: 'text/calendar; charset=utf-8',
+};
+
+const BATCH_SIZE = 500;
+
+type Row = Record<string, unknown>;
+
+interface Table {
+  name: string;
+  columns: string[];
+  rows: () => AsyncGenerator<Row>;
+}
+
+// Pages through a query by id cursor; `fetch` must order by a unique column set ending in id
+async function* paginate<T extends { id: string }>(
+  fetch: (page: { take: number; skip?: number; cursor?: { id: string } }) => Promise<T[]>
+): AsyncGenerator<T> {
+  let cursor: string | undefined;
+  for (;;) {
+    const batch = await fetch(cursor ? { take: BATCH_SIZE, skip: 1, cursor: { id: cursor } } : { take: BATCH_SIZE });
+    yield* batch;
+    if (batch.length < BATCH_SIZE) {
+      return;
+    }
+    cursor = batch[batch.length - 1].id;
+  }
+}
+
+const getTables = (userId: string): Table[] => [
+  {
+    name: 'checkins',
+    columns: ['id', 'day', 'date', 'status', 'workout_type', 'notes', 'photo_url', 'duration_minutes', 'calories_burned', 'session_count', 'discord_message_id', 'created_at', 'updated_at'],
+    rows: () => paginate(page => prisma.checkIn.findMany({ where: { user_id: userId }, orderBy: [{ date: 'asc' }, { id: 'asc' }], ...page })),
+  },
+  {
+    name: 'workout_sessions',
+    columns: ['id', 'checkin_id', 'workout_type', 'notes', 'photo_url', 'duration_minutes', 'calories_burned', 'discord_message_id', 'created_at'],
+    rows: () => paginate(page => prisma.workoutSession.findMany({ where: { user_id: userId }, orderBy: [{ created_at: 'asc' }, { id: 'asc' }], ...page })),
+  },
+  {
+    name: 'exercise_sets',
+    columns: ['id', 'checkin_id', 'session_id', 'exercise', 'set_number', 'reps', 'weight', 'unit', 'rpe', 'created_at'],
+    rows: async function* () {
+      const sets = paginate(page => prisma.exerciseSet.findMany({
+        where: { user_id: userId },
+        include: { exercise: { select: { name: true } } },
+        orderBy: [{ created_at: 'asc' }, { id: 'asc' }],
+        ...page,
+      }));
+      for await (const { exercise, ...set } of sets) {
+        yield { ...set, exercise: exercise.name };
+      }
+    },
+  },
+  {
+    name: 'cheers_sent',
+    columns: ['id', 'to_user_id', 'to_username', 'type', 'message', 'created_at'],
+    rows: async function* () {
+      const cheers = paginate(page => prisma.cheer.findMany({
+        where: { from_user_id: userId },
+        include: { to_user: { select: { username: true } } },
+        orderBy: [{ created_at: 'asc' }, { id: 'asc' }],
+        ...page,
+      }));
+      for await (const { to_user, ...cheer } of cheers) {
+        yield { ...cheer, to_username: to_user.username };
+      }
+    },
+  },
+  {
+    name: 'cheers_received',
+    columns: ['id', 'from_user_id', 'from_username', 'type', 'message', 'created_at'],
+    rows: async function* () {
+      const cheers = paginate(page => prisma.cheer.findMany({
+        where: { to_user_id: userId },
+        include: { from_user: { select: { username: true } } },
+        orderBy: [{ created_at: 'asc' }, { id: 'asc' }],
+        ...page,
+      }));
+      for await (const { from_user, ...cheer } of cheers) {
+        yield { ...cheer, from_username: from_user.username };
+      }
+    },
+  },
+  {
+    name: 'notifications',
+    columns: ['id', 'type', 'title', 'message', 'data', 'from_user_id', 'read_at', 'created_at'],
+    rows: () => paginate(page => prisma.notification.findMany({ where: { user_id: userId }, orderBy: [{ created_at: 'asc' }, { id: 'asc' }], ...page })),
+  },
+];
+
+const SCHEDULE_COLUMNS = [
+  'schedule_type', 'rotation_pattern', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+  'rotation_templates', 'timezone', 'reminder_time', 'is_active', 'rest_days_allowed', 'streak_mode', 'weekly_goal', 'created_at', 'updated_at',
+];
+
+const PROFILE_COLUMNS = ['id', 'discord_id', 'username', 'avatar_url', 'bio', 'timezone', 'joined_at', 'current_streak', 'longest_streak', 'total_checkins'];
+
+const pick = (row: Row, columns: string[]): Row => Object.fromEntries(columns.map(column => [column, row[column] ?? null]));
+
+const writeJson = async (profile: Row, schedule: Schedule | null, tables: Table[], write: (chunk: string) => Promise<void>) => {
+  await write(`{"exported_at":${JSON.stringify(new Date())},"user":${JSON.stringify(pick(profile, PROFILE_COLUMNS))}`);
+  await write(`,"schedule":${JSON.stringify(schedule && pick(schedule, SCHEDULE_COLUMNS))}`);
+  for (const table of tables) {
+    await write(`,"${table.name}":[`);
+    let first = true;
+    for await (const row of table.rows()) {
+      await write(`${first ? '' : ','}${JSON.stringify(pick(row, table.columns))}`);
+      first = false;
+    }
+    await write(']');
+  }
+  await write('}');
+};
+
+// Strings a spreadsheet would run as a formula get a leading quote
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const toCsvField = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  let text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (typeof value === 'string' && FORMULA_START.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvRow = (fields: unknown[]): string => `${fields.map(toCsvField).join(',')}\r\n`;
+
+const writeCsv = async (profile: Row, schedule: Schedule | null, tables: Table[], write: (chunk: string) => Promise<void>) => {
+  await write(toCsvRow(['section', ...PROFILE_COLUMNS]));
+  await write(toCsvRow(['user', ...PROFILE_COLUMNS.map(column => profile[column])]));
+  await write(`\r\n${toCsvRow(['section', ...SCHEDULE_COLUMNS])}`);
+  if (schedule) {
+    await write(toCsvRow(['schedule', ...SCHEDULE_COLUMNS.map(column => schedule[column as keyof Schedule])]));
+  }
+  for (const table of tables) {
+    await write(`\r\n${toCsvRow(['section', ...table.columns])}`);
+    for await (const row of table.rows()) {
+      await write(toCsvRow([table.name, ...table.columns.map(column => row[column])]));
+    }
+  }
+};
+
+const escapeIcsText = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Content lines are folded at 75 octets, continuing with a space (RFC 5545, 3.1)
+const toIcsLine = (line: string): string => {
+  const chunks: string[] = [];
+  let chunk = '';
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(chunk + char) > limit) {
+      chunks.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  chunks.push(chunk);
+  return `${chunks.join('\r\n ')}\r\n`;
+};
+
+const toIcsDate = (day: string): string => day.replace(/-/g, '');
+
+const toIcsTimestamp = (instant: Date): string => instant.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const toIcsEvent = (fields: [string, string][]): string =>
+  ['BEGIN:VEVENT', ...fields.map(([name, value]) => `${name}:${value}`), 'END:VEVENT'].map(toIcsLine).join('');
+
+const CHECKIN_SUMMARIES: Record<CheckIn['status'], (checkin: CheckIn) => string> = {
+  went: checkin => `🏋️ ${checkin.workout_type || 'Workout'}`,
+  rest: () => '😴 Rest day',
+  missed: () => '❌ Missed workout',
+};
+
+const checkInEvent = (checkin: CheckIn, timeZone: string, stamp: string): string => {
+  const day = checkin.day ?? getLocalDate(checkin.date, timeZone);
+  const details = [
+    checkin.duration_minutes && `Duration: ${checkin.duration_minutes} minutes`,
+    checkin.calories_burned && `Calories: ${checkin.calories_burned}`,
+    checkin.session_count > 1 && `Sessions: ${checkin.session_count}`,
+    checkin.notes,
+  ].filter(Boolean).join('\n');
+  return toIcsEvent([
+    ['UID', `checkin-${checkin.id}@waddletracker`],
+    ['DTSTAMP', stamp],
+    ['DTSTART;VALUE=DATE', toIcsDate(day)],
+    ['DTEND;VALUE=DATE', toIcsDate(addDays(day, 1))],
+    ['SUMMARY', escapeIcsText(CHECKIN_SUMMARIES[checkin.status](checkin))],
+    ...(details ? [['DESCRIPTION', escapeIcsText(details)] as [string, string]] : []),
+  ]);
+};
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_FIELDS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+// Planned workout days as recurring all-day events from when the schedule was made
+const scheduleEvents = (schedule: Schedule, timeZone: string, stamp: string): string => {
+  const start = getLocalDate(schedule.created_at, timeZone);
+
+  if (schedule.schedule_type === 'weekly') {
+    const days = WEEKDAY_FIELDS.map((field, weekday) => schedule[field] ? weekday : -1).filter(weekday => weekday >= 0);
+    if (days.length === 0) {
+      return '';
+    }
+    // The first occurrence has to be one of the rule's days
+    let first = start;
+    while (!days.includes(getWeekday(first))) {
+      first = addDays(first, 1);
+    }
+    return toIcsEvent([
+      ['UID', `schedule-${schedule.id}@waddletracker`],
+      ['DTSTAMP', stamp],
+      ['DTSTART;VALUE=DATE', toIcsDate(first)],
+      ['DTEND;VALUE=DATE', toIcsDate(addDays(first, 1))],
+      ['RRULE', `FREQ=WEEKLY;BYDAY=${days.map(weekday => WEEKDAYS[weekday]).join(',')}`],
+      ['SUMMARY', escapeIcsText('📅 Planned workout')],
+    ]);
+  }
+
+  if (schedule.schedule_type === 'rotating' && schedule.rotation_pattern) {
+    const pattern = schedule.rotation_pattern.split(',').map(label => label.trim().toLowerCase());
+    return pattern.map((label, index) => label === 'rest' ? '' : toIcsEvent([
+      ['UID', `schedule-${schedule.id}-${index}@waddletracker`],
+      ['DTSTAMP', stamp],
+      ['DTSTART;VALUE=DATE', toIcsDate(addDays(start, index))],
+      ['DTEND;VALUE=DATE', toIcsDate(addDays(start, index + 1))],
+      ['RRULE', `FREQ=DAILY;INTERVAL=${pattern.length}`],
+      ['SUMMARY', escapeIcsText(`📅 Planned workout: ${label}`)],
+    ])).join('');
+  }
+
+  return '';
+};
+
+const writeIcs = async (profile: Row & { id: string }, schedule: Schedule | null, write: (chunk: string) => Promise<void>) => {
+  // The timezone days are judged in everywhere else, which falls back to the schedule's
+  const timeZone = await getUserTimeZone(profile.id);
+  const stamp = toIcsTimestamp(new Date());
+  await write([
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//WaddleTracker//Export//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeIcsText(`WaddleTracker - ${profile.username}`)}`,
+  ].map(toIcsLine).join(''));
+
+  if (schedule?.is_active) {
+    await write(scheduleEvents(schedule, timeZone, stamp));
+  }
+  const checkins = paginate(page => prisma.checkIn.findMany({ where: { user_id: String(profile.id) }, orderBy: [{ date: 'asc' }, { id: 'asc' }], ...page }));
+  for await (const checkin of checkins) {
+    await write(checkInEvent(checkin, timeZone, stamp));
+  }
+  await write(toIcsLine('END:VCALENDAR'));
+};
+
+// Writes everything about a member in `format` through `write`, which should wait while the client catches up.
+// Calendars hold check-ins and the schedule only.
+export async function exportUserData(
+  profile: Row & { id: string },
+  format: ExportFormat,
+  write: (chunk: string) => Promise<void>
+): Promise<void> {
+  const schedule = await prisma.schedule.findUnique({ where: { user_id: profile.id } });
+  if (format === 'ics') {
+    return writeIcs(profile, schedule, write);
+  }
+  const tables = getTables(profile.id);
+  return format === 'json' ? writeJson(profile, schedule, tables, write) : writeCsv(profile, schedule, tables, write);
+}
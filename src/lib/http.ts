@@ -0,0 +1,28 @@
+import { IncomingHttpHeaders } from 'http';
+
+// Request/response shapes shared by the Vercel function and the Express dev server.
+// Both frameworks' objects satisfy these, so handlers never depend on either one.
+export interface ApiRequest {
+  method?: string;
+  url?: string;
+  headers: IncomingHttpHeaders;
+  // Raw strings from the URL, replaced by the parsed values when a route declares a query schema
+  query: { [key: string]: any };
+  body: any;
+  // Unparsed body, when the adapter can capture it (used for bot request signatures)
+  rawBody?: string;
+}
+
+export interface ApiResponse {
+  status(statusCode: number): ApiResponse;
+  json(body: any): ApiResponse;
+  send(body: any): ApiResponse;
+  redirect(url: string): unknown;
+  setHeader(name: string, value: string | number | readonly string[]): unknown;
+  end(): unknown;
+  // Streaming: write returns false once the buffer is full, and 'drain' fires when it empties
+  write(chunk: string): boolean;
+  once(event: 'drain' | 'close', listener: () => void): unknown;
+  // Aborts the connection, so a client sees a download that broke off as failed rather than complete
+  destroy(error?: Error): unknown;
+}
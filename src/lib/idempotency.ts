@@ -0,0 +1,147 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { ApiRequest, ApiResponse } from './http';
+import { Caller } from './auth';
+import { prisma } from './prisma';
+import { sendError } from './errors';
+import { getRawBody } from './signature';
+
+export const IDEMPOTENCY_HEADER = 'idempotency-key';
+
+const DEFAULT_TTL_HOURS = 24;
+const DEFAULT_LEASE_SECONDS = 60;
+const MAX_KEY_LENGTH = 255;
+
+const getTtlHours = (): number => {
+  const configured = parseInt(process.env.IDEMPOTENCY_TTL_HOURS || '', 10);
+  return isNaN(configured) || configured < 1 ? DEFAULT_TTL_HOURS : configured;
+};
+
+// How long a claimed key stays in progress; longer than the function timeout, so a request past it has died
+const getLeaseSeconds = (): number => {
+  const configured = parseInt(process.env.IDEMPOTENCY_LEASE_SECONDS || '', 10);
+  return isNaN(configured) || configured < 1 ? DEFAULT_LEASE_SECONDS : configured;
+};
+
+const getKey = (req: ApiRequest): string | undefined => {
+  const value = req.headers[IDEMPOTENCY_HEADER];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+// A retry must be the same request: same method, URL and body as sent
+const fingerprint = (req: ApiRequest): string =>
+  crypto.createHash('sha256').update([req.method, req.url, getRawBody(req)].join('\n')).digest('hex');
+
+// Passes calls through to `res` and keeps the status and body that were sent
+const recordResponse = (res: ApiResponse) => {
+  const sent: { status: number; body?: unknown } = { status: 200 };
+  const recorder: ApiResponse = {
+    status(statusCode) {
+      sent.status = statusCode;
+      res.status(statusCode);
+      return recorder;
+    },
+    json(body) {
+      sent.body = body;
+      res.json(body);
+      return recorder;
+    },
+    send(body) {
+      sent.body = body;
+      res.send(body);
+      return recorder;
+    },
+    redirect: url => res.redirect(url),
+    setHeader: (name, value) => res.setHeader(name, value),
+    end: () => res.end(),
+    write: chunk => res.write(chunk),
+    once: (event, listener) => res.once(event, listener),
+    destroy: error => res.destroy(error),
+  };
+  return { recorder, sent };
+};
+
+// Claims the key for this request and returns the claim's id; null when another request already holds it.
+// A claim still in progress after its lease belongs to a request that timed out or crashed, so it is taken over.
+const claim = async (scope: string, key: string, hash: string): Promise<string | null> => {
+  const now = new Date();
+  await prisma.idempotencyKey.deleteMany({
+    where: {
+      OR: [
+        { expires_at: { lt: now } },
+        { scope, key, status_code: null, created_at: { lt: new Date(now.getTime() - getLeaseSeconds() * 1000) } },
+      ],
+    },
+  });
+  try {
+    const claimed = await prisma.idempotencyKey.create({
+      data: { scope, key, fingerprint: hash, expires_at: new Date(now.getTime() + getTtlHours() * 60 * 60 * 1000) },
+    });
+    return claimed.id;
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return null;
+    }
+    throw error;
+  }
+};
+
+// Runs a POST handler at most once per Idempotency-Key and caller. A retry with the same key gets the
+// first response again, with an Idempotent-Replayed header; requests without the header run as usual.
+// Server errors release the key so the request can be retried for real, and so does a request that never
+// finished within the lease.
+export async function withIdempotency(
+  req: ApiRequest,
+  res: ApiResponse,
+  caller: Caller,
+  run: (res: ApiResponse) => unknown
+) {
+  const key = getKey(req);
+  if (req.method !== 'POST' || key === undefined) {
+    return run(res);
+  }
+
+  if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+    return sendError(res, 'IDEMPOTENCY_KEY_INVALID', `Idempotency-Key must be 1 to ${MAX_KEY_LENGTH} characters`);
+  }
+
+  const scope = caller.type === 'bot' ? 'bot' : caller.user.id;
+  const hash = fingerprint(req);
+
+  const claimed = await claim(scope, key, hash);
+  if (!claimed) {
+    const stored = await prisma.idempotencyKey.findUnique({ where: { scope_key: { scope, key } } });
+    if (!stored) {
+      // Expired and cleaned up between the two queries
+      return withIdempotency(req, res, caller, run);
+    }
+    if (stored.fingerprint !== hash) {
+      return sendError(res, 'IDEMPOTENCY_KEY_REUSED');
+    }
+    if (stored.status_code === null) {
+      return sendError(res, 'IDEMPOTENCY_REQUEST_IN_PROGRESS');
+    }
+
+    res.setHeader('Idempotent-Replayed', 'true');
+    return res.status(stored.status_code).json(stored.response);
+  }
+
+  // By the claim's id, so a request outliving its lease never touches the claim of the retry that took over
+  const { recorder, sent } = recordResponse(res);
+  try {
+    await run(recorder);
+  } catch (error) {
+    await prisma.idempotencyKey.deleteMany({ where: { id: claimed } });
+    throw error;
+  }
+
+  if (sent.status >= 500) {
+    await prisma.idempotencyKey.deleteMany({ where: { id: claimed } });
+  } else {
+    await prisma.idempotencyKey.updateMany({
+      where: { id: claimed },
+      // Stored as the client received it, e.g. dates as ISO strings
+      data: { status_code: sent.status, response: sent.body === undefined ? Prisma.JsonNull : JSON.parse(JSON.stringify(sent.body)) },
+    });
+  }
+}
@@ -0,0 +1,415 @@
+import { prisma } from './prisma';
+import { ErrorCode } from './errors';
+import { locateCheckInDay } from './checkins';
+import { getLocalDate } from './timezone';
+import { getUserTimeZone } from './users';
+import { ImportCheckInsInput, isValidDateInput } from './validation';
+
+// Workouts recorded in other apps, read from their export files without any network access.
+//   GPX: one workout per <trk>, timed from its first to its last <time>; its <type> or <name> names it.
+//        GPX has no calories; the distance is computed from the track points.
+//   TCX: one workout per <Activity>, with duration, calories and distance summed over its laps.
+//   CSV: a header row naming the columns, then one workout per row:
+//        date (required: YYYY-MM-DD for that day, or an ISO 8601 timestamp),
+//        workout_type, duration_minutes, calories_burned, notes (optional).
+
+const MAX_IMPORTED_WORKOUTS = 500;
+
+export type ImportFormat = ImportCheckInsInput['files'][number]['format'];
+
+export interface ParsedWorkout {
+  source: string; // File name, with the row for CSV
+  date: string; // ISO 8601 timestamp, or YYYY-MM-DD
+  workout_type: string | null;
+  duration_minutes: number | null;
+  calories_burned: number | null;
+  notes: string | null;
+}
+
+export interface ImportRejection {
+  source: string;
+  reason: string;
+}
+
+export type ImportStatus = 'new' | 'session' | 'duplicate';
+
+export interface PlannedWorkout extends ParsedWorkout {
+  day: string;
+  checkin_date: Date;
+  // new: logs the day's check-in; session: another workout on a day this import logs; duplicate: the day is logged already
+  status: ImportStatus;
+}
+
+const SPORTS: [RegExp, string][] = [
+  [/run/i, 'Run'],
+  [/bik|cycl|ride/i, 'Ride'],
+  [/walk/i, 'Walk'],
+  [/hik/i, 'Hike'],
+  [/swim/i, 'Swim'],
+  [/row/i, 'Row'],
+];
+
+const toWorkoutType = (...names: (string | undefined)[]): string | null => {
+  for (const name of names) {
+    const sport = name && SPORTS.find(([pattern]) => pattern.test(name));
+    if (sport) {
+      return sport[1];
+    }
+  }
+  return names.find(name => name && !/^\d+$/.test(name))?.trim() || null;
+};
+
+// Unwraps CDATA sections; an unclosed one is left as it is
+const stripCdata = (text: string): string => {
+  let result = '';
+  let from = 0;
+  for (let start = text.indexOf('<![CDATA['); start !== -1; start = text.indexOf('<![CDATA[', from)) {
+    const end = text.indexOf(']]>', start + 9);
+    if (end === -1) {
+      break;
+    }
+    result += text.slice(from, start) + text.slice(start + 9, end);
+    from = end + 3;
+  }
+  return result + text.slice(from);
+};
+
+const decodeXml = (text: string): string =>
+  stripCdata(text)
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&')
+    .trim();
+
+// Files come from members, so tags are found by scanning forward with indexOf rather than with regular
+// expressions, which backtrack over the rest of the text for every tag left unclosed. Every search resumes
+// where the last one stopped, keeping each read linear in the size of the file.
+
+const NAME_CHAR = /[\w:.-]/;
+
+interface TagMatch {
+  start: number;
+  end: number; // Just past the '>'
+  attributes: string;
+}
+
+// The next <tag ...> (or </tag> when `closing`) from `from` on, ignoring a namespace prefix
+const findTag = (xml: string, tag: string, from: number, closing = false): TagMatch | null => {
+  const opener = closing ? '</' : '<';
+  for (let start = xml.indexOf(opener, from); start !== -1; start = xml.indexOf(opener, start + 1)) {
+    let nameEnd = start + opener.length;
+    while (nameEnd < xml.length && NAME_CHAR.test(xml[nameEnd])) {
+      nameEnd++;
+    }
+    const name = xml.slice(start + opener.length, nameEnd);
+    if (name.slice(name.indexOf(':') + 1) !== tag) {
+      continue;
+    }
+    const end = xml.indexOf('>', nameEnd);
+    return end === -1 ? null : { start, end: end + 1, attributes: xml.slice(nameEnd, end) };
+  }
+  return null;
+};
+
+interface Block {
+  attributes: string;
+  body: string;
+  start: number;
+  end: number;
+}
+
+// Each <tag>...</tag> in `xml`, up to `limit`; reading stops at the first one left unclosed
+const readBlocks = (xml: string, tag: string, limit = Infinity): Block[] => {
+  const blocks: Block[] = [];
+  let from = 0;
+  while (blocks.length < limit) {
+    const open = findTag(xml, tag, from);
+    if (!open) {
+      break;
+    }
+    if (open.attributes.endsWith('/')) {
+      blocks.push({ attributes: open.attributes.slice(0, -1), body: '', start: open.start, end: open.end });
+      from = open.end;
+      continue;
+    }
+    const close = findTag(xml, tag, open.end, true);
+    if (!close) {
+      break;
+    }
+    blocks.push({ attributes: open.attributes, body: xml.slice(open.end, close.start), start: open.start, end: close.end });
+    from = close.end;
+  }
+  return blocks;
+};
+
+// Text of the first <tag> in `xml`
+const readTag = (xml: string, tag: string): string | undefined => {
+  const [block] = readBlocks(xml, tag, 1);
+  return block && decodeXml(block.body);
+};
+
+// Attributes of every opening <tag>, closed or not
+const readTagAttributes = (xml: string, tag: string): string[] => {
+  const attributes: string[] = [];
+  for (let match = findTag(xml, tag, 0); match; match = findTag(xml, tag, match.end)) {
+    attributes.push(match.attributes);
+  }
+  return attributes;
+};
+
+const removeBlocks = (xml: string, tag: string): string => {
+  let result = '';
+  let from = 0;
+  for (const block of readBlocks(xml, tag)) {
+    result += xml.slice(from, block.start);
+    from = block.end;
+  }
+  return result + xml.slice(from);
+};
+
+const readAttribute = (attributes: string, name: string): string | undefined => {
+  const key = `${name}="`;
+  for (let at = attributes.indexOf(key); at !== -1; at = attributes.indexOf(key, at + 1)) {
+    if (at > 0 && /\w/.test(attributes[at - 1])) {
+      continue;
+    }
+    const end = attributes.indexOf('"', at + key.length);
+    return end === -1 ? undefined : attributes.slice(at + key.length, end);
+  }
+  return undefined;
+};
+
+const isValidInstant = (value: string | undefined): value is string => !!value && !isNaN(Date.parse(value));
+
+const EARTH_RADIUS_KM = 6371;
+
+const haversineKm = (from: [number, number], to: [number, number]): number => {
+  const radians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = radians(to[0] - from[0]);
+  const dLon = radians(to[1] - from[1]);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(radians(from[0])) * Math.cos(radians(to[0])) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+const describeDistance = (km: number, format: string): string =>
+  km > 0 ? `Imported from ${format}: ${Math.round(km * 100) / 100} km` : `Imported from ${format}`;
+
+const minutesBetween = (start: string, end: string): number | null => {
+  const minutes = Math.round((Date.parse(end) - Date.parse(start)) / 60000);
+  return minutes > 0 ? minutes : null;
+};
+
+const parseGpx = (source: string, content: string) => {
+  const workouts: ParsedWorkout[] = [];
+  const rejected: ImportRejection[] = [];
+
+  const tracks = readBlocks(content, 'trk');
+  if (tracks.length === 0) {
+    rejected.push({ source, reason: 'No <trk> track found' });
+  }
+
+  tracks.forEach(({ body }, index) => {
+    const label = tracks.length > 1 ? `${source} track ${index + 1}` : source;
+    const times = readBlocks(body, 'time').map(time => decodeXml(time.body)).filter(isValidInstant);
+    if (times.length === 0) {
+      rejected.push({ source: label, reason: 'The track has no timestamps' });
+      return;
+    }
+
+    const points = readTagAttributes(body, 'trkpt')
+      .map(attributes => [Number(readAttribute(attributes, 'lat')), Number(readAttribute(attributes, 'lon'))] as [number, number])
+      .filter(([lat, lon]) => !isNaN(lat) && !isNaN(lon));
+    const km = points.slice(1).reduce((total, point, i) => total + haversineKm(points[i], point), 0);
+
+    workouts.push({
+      source: label,
+      date: times[0],
+      workout_type: toWorkoutType(readTag(body, 'type'), readTag(body, 'name')) ?? 'GPS Activity',
+      duration_minutes: minutesBetween(times[0], times[times.length - 1]),
+      calories_burned: null,
+      notes: describeDistance(km, 'GPX'),
+    });
+  });
+
+  return { workouts, rejected };
+};
+
+const parseTcx = (source: string, content: string) => {
+  const workouts: ParsedWorkout[] = [];
+  const rejected: ImportRejection[] = [];
+
+  const activities = readBlocks(content, 'Activity');
+  if (activities.length === 0) {
+    rejected.push({ source, reason: 'No <Activity> found' });
+  }
+
+  activities.forEach(({ attributes, body }, index) => {
+    const label = activities.length > 1 ? `${source} activity ${index + 1}` : source;
+    const laps = readBlocks(body, 'Lap');
+    const start = readTag(body, 'Id') ?? (laps[0] && readAttribute(laps[0].attributes, 'StartTime'));
+    if (!isValidInstant(start)) {
+      rejected.push({ source: label, reason: 'The activity has no start time' });
+      return;
+    }
+
+    // Trackpoints repeat DistanceMeters; only the lap totals count
+    const totals = laps.map(lap => removeBlocks(lap.body, 'Track'));
+    const sum = (tag: string) => totals.reduce((total, lap) => total + (Number(readTag(lap, tag)) || 0), 0);
+    const seconds = sum('TotalTimeSeconds');
+    const calories = sum('Calories');
+
+    workouts.push({
+      source: label,
+      date: start,
+      workout_type: toWorkoutType(readAttribute(attributes, 'Sport')) ?? 'Imported Activity',
+      duration_minutes: seconds > 0 ? Math.max(1, Math.round(seconds / 60)) : null,
+      calories_burned: calories > 0 ? Math.round(calories) : null,
+      notes: describeDistance(sum('DistanceMeters') / 1000, 'TCX'),
+    });
+  });
+
+  return { workouts, rejected };
+};
+
+// Splits CSV text into rows of fields; quoted fields may hold commas, line breaks and "" for a quote
+const readCsv = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  rows.push([...row, field]);
+
+  return rows.filter(fields => fields.some(value => value.trim() !== ''));
+};
+
+const CSV_COLUMNS = ['date', 'workout_type', 'duration_minutes', 'calories_burned', 'notes'];
+
+const parseCsv = (source: string, content: string) => {
+  const workouts: ParsedWorkout[] = [];
+  const rejected: ImportRejection[] = [];
+
+  const [header = [], ...rows] = readCsv(content.replace(/^\uFEFF/, ''));
+  const columns = header.map(column => column.trim().toLowerCase());
+  const unknown = columns.filter(column => !CSV_COLUMNS.includes(column));
+  if (!columns.includes('date') || unknown.length > 0) {
+    rejected.push({
+      source,
+      reason: `The header row must name the columns: date (required), ${CSV_COLUMNS.slice(1).join(', ')}${unknown.length > 0 ? `; unknown: ${unknown.join(', ')}` : ''}`,
+    });
+    return { workouts, rejected };
+  }
+
+  rows.forEach((fields, index) => {
+    const label = `${source} row ${index + 2}`;
+    const value = (column: string) => fields[columns.indexOf(column)]?.trim() || undefined;
+    const whole = (column: string): number | null | false => {
+      const text = value(column);
+      if (text === undefined) {
+        return null;
+      }
+      return /^\d+$/.test(text) ? parseInt(text, 10) : false;
+    };
+
+    const date = value('date');
+    if (!date || !isValidDateInput(date)) {
+      rejected.push({ source: label, reason: 'date must be YYYY-MM-DD or an ISO 8601 timestamp' });
+      return;
+    }
+    const duration = whole('duration_minutes');
+    const calories = whole('calories_burned');
+    if (duration === false || calories === false) {
+      rejected.push({ source: label, reason: 'duration_minutes and calories_burned must be whole numbers' });
+      return;
+    }
+
+    workouts.push({
+      source: label,
+      date,
+      workout_type: value('workout_type') ?? null,
+      duration_minutes: duration || null,
+      calories_burned: calories,
+      notes: value('notes') ?? null,
+    });
+  });
+
+  return { workouts, rejected };
+};
+
+const PARSERS: Record<ImportFormat, (source: string, content: string) => { workouts: ParsedWorkout[]; rejected: ImportRejection[] }> = {
+  gpx: parseGpx,
+  tcx: parseTcx,
+  csv: parseCsv,
+};
+
+// Reads the files and decides what each workout becomes: the first workout on a day not logged yet is that
+// day's check-in, later ones on it are its sessions, and days already logged are skipped. Unlike live
+// check-ins, imports may reach back past the late-logging window; future days are rejected.
+export async function planImport(
+  userId: string,
+  files: ImportCheckInsInput['files']
+): Promise<{ workouts: PlannedWorkout[]; rejected: ImportRejection[] } | { code: ErrorCode; error?: string }> {
+  const parsed: ParsedWorkout[] = [];
+  const rejected: ImportRejection[] = [];
+  files.forEach((file, index) => {
+    const result = PARSERS[file.format](file.name || `file ${index + 1}`, file.content);
+    parsed.push(...result.workouts);
+    rejected.push(...result.rejected);
+  });
+
+  if (parsed.length > MAX_IMPORTED_WORKOUTS) {
+    return { code: 'IMPORT_TOO_LARGE', error: `An import can hold up to ${MAX_IMPORTED_WORKOUTS} workouts; this one has ${parsed.length}` };
+  }
+
+  const now = new Date();
+  const timeZone = await getUserTimeZone(userId);
+  const today = getLocalDate(now, timeZone);
+  const located = parsed
+    .map(workout => ({ workout, ...locateCheckInDay(workout.date, timeZone, now) }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const logged = await prisma.checkIn.findMany({
+    where: { user_id: userId, day: { in: [...new Set(located.map(entry => entry.day))] } },
+    select: { day: true },
+  });
+  const loggedDays = new Set(logged.map(checkin => checkin.day));
+  const importedDays = new Set<string>();
+
+  const workouts: PlannedWorkout[] = [];
+  for (const { workout, day, date } of located) {
+    if (day > today) {
+      rejected.push({ source: workout.source, reason: `${day} is in the future` });
+      continue;
+    }
+    const status: ImportStatus = loggedDays.has(day) ? 'duplicate' : importedDays.has(day) ? 'session' : 'new';
+    importedDays.add(day);
+    workouts.push({ ...workout, day, checkin_date: date, status });
+  }
+
+  return { workouts, rejected };
+}
@@ -0,0 +1,191 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { ERROR_CODES } from './errors';
+import { Router } from './router';
+import { AccessRule, getAccessRules } from '../middleware/auth';
+
+type JsonSchema = Record<string, any>;
+
+export interface OpenApiInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+const toJsonSchema = (schema: z.ZodTypeAny): JsonSchema => {
+  // Inline every schema; OpenAPI 3.1 documents are JSON Schema 2020-12 without a $schema header
+  const { $schema, ...json } = zodToJsonSchema(schema, { target: 'jsonSchema2019-09', $refStrategy: 'none', pipeStrategy: 'output' }) as JsonSchema;
+  return json;
+};
+
+const isParam = (segment: string): boolean => segment.startsWith(':');
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+// '/users/:id/photos' -> '/users/{id}/photos'
+const toOpenApiPath = (pattern: string): string => pattern.replace(/:([A-Za-z0-9_]+)/g, '{$1}');
+
+// GET '/checkins/:userId/recent' -> 'getCheckinsByUserIdRecent'
+const toOperationId = (method: string, segments: string[]): string =>
+  method.toLowerCase() +
+  segments
+    .map(segment => (isParam(segment) ? `By${capitalize(segment.slice(1))}` : segment))
+    .map(segment => segment.split(/[^A-Za-z0-9]+/).filter(Boolean).map(capitalize).join(''))
+    .join('');
+
+const toParameters = (segments: string[], query?: z.ZodTypeAny) => {
+  const parameters: JsonSchema[] = segments.filter(isParam).map(segment => ({
+    name: segment.slice(1),
+    in: 'path',
+    required: true,
+    schema: { type: 'string' },
+  }));
+
+  if (query) {
+    const { properties = {}, required = [] } = toJsonSchema(query);
+    for (const [name, schema] of Object.entries<JsonSchema>(properties)) {
+      parameters.push({ name, in: 'query', required: required.includes(name), schema });
+    }
+  }
+
+  return parameters;
+};
+
+// Bots sign their requests; every other rule is satisfied by a member's JWT
+const toSecurity = (rules: AccessRule[]) => {
+  const security: Record<string, string[]>[] = [];
+  if (rules.some(rule => rule !== 'bot')) {
+    security.push({ bearerAuth: [] });
+  }
+  if (rules.includes('bot')) {
+    security.push({ botSignature: [] });
+  }
+  return security;
+};
+
+const errorResponse = (description: string, schema = 'Error') => ({
+  description,
+  content: { 'application/json': { schema: { $ref: `#/components/schemas/${schema}` } } },
+});
+
+const errorCodeSchema = {
+  type: 'string',
+  enum: Object.keys(ERROR_CODES),
+  description: 'Stable machine-readable code; see src/lib/errors.ts for the status each one is sent with',
+};
+
+const components = {
+  schemas: {
+    SuccessResponse: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', const: true },
+        data: {},
+        message: { type: 'string' },
+        timestamp: { type: 'string', format: 'date-time' },
+      },
+      required: ['success', 'data', 'timestamp'],
+    },
+    Error: {
+      type: 'object',
+      properties: {
+        error: { type: 'string' },
+        code: errorCodeSchema,
+        statusCode: { type: 'integer' },
+        timestamp: { type: 'string', format: 'date-time' },
+      },
+      required: ['error', 'code', 'statusCode', 'timestamp'],
+    },
+    ValidationError: {
+      type: 'object',
+      properties: {
+        error: { type: 'string' },
+        code: errorCodeSchema,
+        details: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { field: { type: 'string' }, message: { type: 'string' }, code: errorCodeSchema },
+            required: ['field', 'message'],
+          },
+        },
+        statusCode: { type: 'integer', const: 400 },
+        timestamp: { type: 'string', format: 'date-time' },
+      },
+      required: ['error', 'code', 'details', 'statusCode', 'timestamp'],
+    },
+  },
+  securitySchemes: {
+    bearerAuth: {
+      type: 'http',
+      scheme: 'bearer',
+      bearerFormat: 'JWT',
+      description: 'Token issued by the Discord OAuth callback',
+    },
+    botSignature: {
+      type: 'apiKey',
+      in: 'header',
+      name: 'X-Bot-Signature',
+      description: 'HMAC-SHA256 of the request, sent with X-Bot-Timestamp and X-Bot-Nonce (see DISCORD_BOT_UPDATE_PROMPT.md)',
+    },
+  },
+};
+
+// Builds the OpenAPI 3.1 document straight from the route table, so it can't drift from the code
+export const buildOpenApiDocument = (router: Router, info: OpenApiInfo) => {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+
+  for (const { method, pattern, spec, handler } of router.routes()) {
+    const segments = pattern.split('/').filter(Boolean);
+    const rules = getAccessRules(handler);
+    const parameters = toParameters(segments, spec.query);
+    // Guarded POSTs run through withIdempotency
+    if (rules && method === 'POST') {
+      parameters.push({
+        name: 'Idempotency-Key',
+        in: 'header',
+        required: false,
+        description: 'Retrying with the same key replays the first response instead of repeating the action',
+        schema: { type: 'string', minLength: 1, maxLength: 255 },
+      });
+    }
+
+    const responses: Record<string, JsonSchema> = {
+      200: {
+        description: 'Success',
+        content: { 'application/json': { schema: { $ref: '#/components/schemas/SuccessResponse' } } },
+      },
+    };
+    if (spec.body || spec.query) {
+      responses[400] = errorResponse('The body or query did not match the schema', 'ValidationError');
+    }
+    if (rules) {
+      responses[401] = errorResponse('Missing or invalid credentials');
+      responses[403] = errorResponse('The caller may not use this endpoint');
+    }
+    responses.default = errorResponse('Error');
+
+    const operation: JsonSchema = {
+      operationId: toOperationId(method, segments),
+      summary: spec.summary,
+      tags: [segments.find(segment => !isParam(segment)) ?? 'info'],
+      ...(parameters.length > 0 && { parameters }),
+      ...(spec.body && {
+        requestBody: { required: true, content: { 'application/json': { schema: toJsonSchema(spec.body) } } },
+      }),
+      ...(rules && { security: toSecurity(rules), 'x-access-rules': rules }),
+      responses,
+    };
+
+    const path = toOpenApiPath(pattern);
+    paths[path] = { ...paths[path], [method.toLowerCase()]: operation };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info,
+    servers: [{ url: router.basePath }],
+    paths,
+    components,
+  };
+};
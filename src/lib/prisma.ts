@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 
 const globalForPrisma = globalThis as unknown as {
   prisma: PrismaClient | undefined;
@@ -7,3 +7,10 @@ const globalForPrisma = globalThis as unknown as {
 export const prisma = globalForPrisma.prisma ?? new PrismaClient();
 
 if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma;
+
+// The client or an open interactive transaction; functions that take one join the caller's transaction
+export type Db = PrismaClient | Prisma.TransactionClient;
+
+// Runs `fn` in a new transaction, or directly when `db` already is one
+export const inTransaction = <T>(db: Db, fn: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> =>
+  '$transaction' in db ? db.$transaction(fn) : fn(db);
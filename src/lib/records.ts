@@ -0,0 +1,269 @@
+import { CheckIn, PersonalRecord, WorkoutSession } from '@prisma/client';
+import { Db, prisma } from './prisma';
+import { convertWeight } from './exercises';
+import { addDays, getWeekStart } from './timezone';
+
+export type RecordKind = 'longest_session' | 'most_calories' | 'heaviest_lift' | 'most_checkins_week';
+
+interface Candidate {
+  kind: RecordKind;
+  exercise?: { id: string; name: string };
+  value: number;
+  unit: string;
+  day: string;
+  // Best earlier value in `unit`, for members whose records predate this feature; null when there is none
+  history: () => Promise<number | null>;
+}
+
+export interface PersonalRecordAchieved {
+  record: ReturnType<typeof toRecordResponse>;
+  embed: Record<string, unknown>;
+}
+
+const label = (kind: RecordKind, exercise?: { name: string } | null): string => ({
+  longest_session: 'Longest session',
+  most_calories: 'Most calories burned',
+  heaviest_lift: `Heaviest ${exercise?.name ?? 'lift'}`,
+  most_checkins_week: 'Most check-ins in a week',
+})[kind];
+
+const formatValue = (value: number, unit: string): string =>
+  unit === 'checkins' ? `${value} check-ins` : `${Math.round(value * 10) / 10} ${unit}`;
+
+// Records in different units (kg and lb lifts) are compared in the unit of the new one
+const inUnit = (value: number, from: string, to: string): number =>
+  from === to || (to !== 'kg' && to !== 'lb') ? value : convertWeight(value, from, to);
+
+const maxOf = (...values: (number | null | undefined)[]): number | null =>
+  values.reduce<number | null>((max, value) => value == null ? max : Math.max(max ?? value, value), null);
+
+export const toRecordResponse = (record: PersonalRecord & { exercise?: { id: string; name: string } | null }) => ({
+  id: record.id,
+  kind: record.kind as RecordKind,
+  label: label(record.kind as RecordKind, record.exercise),
+  exercise: record.exercise ?? null,
+  value: record.value,
+  unit: record.unit,
+  previous_value: record.previous_value,
+  checkin_id: record.checkin_id,
+  day: record.day,
+  achieved_at: record.achieved_at,
+});
+
+// What a session could have beaten: its duration and calories, the top set of each lift, and the
+// number of workouts in its week when it was the day's first
+const getCandidates = async (db: Db, userId: string, checkin: CheckIn, session: WorkoutSession): Promise<Candidate[]> => {
+  const day = checkin.day!;
+  const candidates: Candidate[] = [];
+  const earlierSessions = { user_id: userId, id: { not: session.id } };
+  // Check-ins from before sessions were stored stand for their only session
+  const legacyCheckIns = { user_id: userId, id: { not: checkin.id }, sessions: { none: {} } };
+
+  if (session.duration_minutes) {
+    candidates.push({
+      kind: 'longest_session',
+      value: session.duration_minutes,
+      unit: 'minutes',
+      day,
+      history: async () => maxOf(
+        (await db.workoutSession.aggregate({ where: earlierSessions, _max: { duration_minutes: true } }))._max.duration_minutes,
+        (await db.checkIn.aggregate({ where: legacyCheckIns, _max: { duration_minutes: true } }))._max.duration_minutes
+      ),
+    });
+  }
+
+  if (session.calories_burned) {
+    candidates.push({
+      kind: 'most_calories',
+      value: session.calories_burned,
+      unit: 'calories',
+      day,
+      history: async () => maxOf(
+        (await db.workoutSession.aggregate({ where: earlierSessions, _max: { calories_burned: true } }))._max.calories_burned,
+        (await db.checkIn.aggregate({ where: legacyCheckIns, _max: { calories_burned: true } }))._max.calories_burned
+      ),
+    });
+  }
+
+  const sets = await db.exerciseSet.findMany({
+    where: { session_id: session.id, weight: { not: null } },
+    include: { exercise: { select: { id: true, name: true } } },
+  });
+  const topSets = new Map<string, (typeof sets)[number]>();
+  for (const set of sets) {
+    const top = topSets.get(set.exercise_id);
+    if (!top || convertWeight(set.weight!, set.unit, 'kg') > convertWeight(top.weight!, top.unit, 'kg')) {
+      topSets.set(set.exercise_id, set);
+    }
+  }
+  for (const { exercise, weight, unit } of topSets.values()) {
+    candidates.push({
+      kind: 'heaviest_lift',
+      exercise,
+      value: weight!,
+      unit,
+      day,
+      history: async () => {
+        const earlier = await db.exerciseSet.findMany({
+          where: {
+            user_id: userId,
+            exercise_id: exercise.id,
+            weight: { not: null },
+            OR: [{ session_id: null }, { session_id: { not: session.id } }],
+          },
+          select: { weight: true, unit: true },
+        });
+        return maxOf(...earlier.map(set => inUnit(set.weight!, set.unit, unit)));
+      },
+    });
+  }
+
+  // Later sessions of a day do not add check-ins to the week
+  if (checkin.session_count === 1) {
+    const week = getWeekStart(day);
+    const weekEnd = addDays(week, 6);
+    const workouts = { user_id: userId, status: 'went' as const };
+    candidates.push({
+      kind: 'most_checkins_week',
+      value: await db.checkIn.count({ where: { ...workouts, day: { gte: week, lte: weekEnd } } }),
+      unit: 'checkins',
+      day: week,
+      // Every other week is only counted once, for a member without a record of this kind yet
+      history: async () => {
+        const others = await db.checkIn.findMany({
+          where: { ...workouts, OR: [{ day: { lt: week } }, { day: { gt: weekEnd } }] },
+          select: { day: true },
+        });
+        const perWeek = new Map<string, number>();
+        for (const other of others) {
+          const start = getWeekStart(other.day!);
+          perWeek.set(start, (perWeek.get(start) ?? 0) + 1);
+        }
+        return maxOf(...perWeek.values());
+      },
+    });
+  }
+
+  return candidates;
+};
+
+const buildRecordEmbed = (
+  user: { username: string; avatar_url: string | null },
+  record: ReturnType<typeof toRecordResponse>
+) => ({
+  title: '🏆 New Personal Record!',
+  description: `**${user.username}** set a new record: **${record.label}**`,
+  color: 0xffd700,
+  thumbnail: {
+    url: user.avatar_url || 'https://cdn.discordapp.com/embed/avatars/0.png',
+  },
+  fields: [
+    {
+      name: '🥇 New Best',
+      value: formatValue(record.value, record.unit),
+      inline: true,
+    },
+    {
+      name: '📈 Previous Best',
+      value: record.previous_value === null ? '—' : formatValue(record.previous_value, record.unit),
+      inline: true,
+    },
+  ],
+  footer: { text: 'WaddleFit - Keep pushing yourself! 💪' },
+  timestamp: new Date().toISOString(),
+});
+
+// Stores the personal bests a workout session set and notifies the member of each, with an embed the bot can
+// post. A member's first value of a kind is stored as the record to beat without counting as an achievement.
+export async function detectPersonalRecords(
+  db: Db,
+  userId: string,
+  checkin: CheckIn,
+  session: WorkoutSession
+): Promise<PersonalRecordAchieved[]> {
+  if (checkin.status !== 'went' || !checkin.day) {
+    return [];
+  }
+
+  const achieved: PersonalRecordAchieved[] = [];
+  let user: { username: string; avatar_url: string | null } | null = null;
+
+  for (const candidate of await getCandidates(db, userId, checkin, session)) {
+    const current = await db.personalRecord.findFirst({
+      where: { user_id: userId, kind: candidate.kind, exercise_id: candidate.exercise?.id ?? null },
+      orderBy: { achieved_at: 'desc' },
+    });
+    const previous = current ? inUnit(current.value, current.unit, candidate.unit) : await candidate.history();
+    if (previous !== null && candidate.value <= previous) {
+      continue;
+    }
+
+    const stored = await db.personalRecord.create({
+      data: {
+        user_id: userId,
+        kind: candidate.kind,
+        exercise_id: candidate.exercise?.id,
+        value: candidate.value,
+        unit: candidate.unit,
+        previous_value: previous,
+        checkin_id: checkin.id,
+        day: candidate.day,
+      },
+    });
+    if (previous === null) {
+      continue;
+    }
+
+    user ??= await db.user.findUniqueOrThrow({ where: { id: userId }, select: { username: true, avatar_url: true } });
+    const record = toRecordResponse({ ...stored, exercise: candidate.exercise });
+    const embed = buildRecordEmbed(user, record);
+
+    await db.notification.create({
+      data: {
+        user_id: userId,
+        type: 'achievement',
+        title: '🏆 New personal record',
+        message: `${record.label}: ${formatValue(record.value, record.unit)} (previous best ${formatValue(previous, record.unit)})`,
+        data: { record_id: stored.id, kind: stored.kind, exercise_id: stored.exercise_id, value: stored.value, unit: stored.unit, embed },
+      },
+    });
+    achieved.push({ record, embed });
+  }
+
+  return achieved;
+}
+
+// Kinds of record a correction from `before` to `after` can change: duration and calories their own,
+// and a status change all of them
+export const getCorrectedRecordKinds = (before: CheckIn, after: CheckIn): RecordKind[] => {
+  if (before.status !== after.status) {
+    return ['longest_session', 'most_calories', 'heaviest_lift', 'most_checkins_week'];
+  }
+  const kinds: RecordKind[] = [];
+  if (before.duration_minutes !== after.duration_minutes) {
+    kinds.push('longest_session');
+  }
+  if (before.calories_burned !== after.calories_burned) {
+    kinds.push('most_calories');
+  }
+  return kinds;
+};
+
+// Removes the records a check-in set, of the given kinds or all of them. The record before each becomes
+// current again; a corrected check-in is then checked anew with detectPersonalRecords.
+export async function retractPersonalRecords(db: Db, checkinId: string, kinds?: RecordKind[]): Promise<void> {
+  await db.personalRecord.deleteMany({
+    where: { checkin_id: checkinId, ...(kinds ? { kind: { in: kinds } } : {}) },
+  });
+}
+
+// The current record of each kind (and exercise): the latest one stored
+export async function getCurrentRecords(userId: string) {
+  const records = await prisma.personalRecord.findMany({
+    where: { user_id: userId },
+    include: { exercise: { select: { id: true, name: true } } },
+    orderBy: { achieved_at: 'desc' },
+    distinct: ['kind', 'exercise_id'],
+  });
+  return records.map(toRecordResponse);
+}
@@ -0,0 +1,215 @@
+import { z } from 'zod';
+import { ApiRequest, ApiResponse } from './http';
+import { sendError } from './errors';
+import { authorizeRoute } from '../middleware/auth';
+import { validateQuery, validateRequest } from '../middleware/validation';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+// Extracts the `:name` segments of a pattern, e.g. '/users/:id/photos' -> 'id'
+type ParamNames<P extends string> =
+  P extends `${string}:${infer Param}/${infer Rest}`
+    ? Param | ParamNames<`/${Rest}`>
+    : P extends `${string}:${infer Param}`
+      ? Param
+      : never;
+
+export type RouteParams<P extends string> = { [K in ParamNames<P>]: string };
+
+export type RouteHandler<P extends string = string> = (
+  req: ApiRequest,
+  res: ApiResponse,
+  params: RouteParams<P>
+) => unknown;
+
+// Schemas a route validates before its handler runs; the parsed values replace req.body / req.query.
+// The summary and schemas also feed the generated OpenAPI document.
+export interface RouteSpec {
+  summary?: string;
+  body?: z.ZodTypeAny;
+  query?: z.ZodTypeAny;
+}
+
+interface Route {
+  method: HttpMethod;
+  pattern: string;
+  segments: string[];
+  spec: RouteSpec;
+  handler: RouteHandler<any>;
+}
+
+const splitPath = (path: string): string[] => path.split('/').filter(Boolean);
+
+// A param that isn't valid percent-encoding (e.g. '%E0%A4%A') names nothing, so the route doesn't match
+const decodeSegment = (segment: string): string | null => {
+  try {
+    return decodeURIComponent(segment);
+  } catch (error) {
+    return null;
+  }
+};
+
+// Returns the extracted params when the path fits the route's segments
+const matchSegments = (route: Route, pathSegments: string[]): Record<string, string> | null => {
+  if (route.segments.length !== pathSegments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < route.segments.length; i++) {
+    const segment = route.segments[i];
+    if (segment.startsWith(':')) {
+      const value = decodeSegment(pathSegments[i]);
+      if (value === null) {
+        return null;
+      }
+      params[segment.slice(1)] = value;
+    } else if (segment !== pathSegments[i]) {
+      return null;
+    }
+  }
+
+  return params;
+};
+
+// Literal segments win over params, left to right, so '/checkins/import' beats '/checkins/:userId'
+const compareSpecificity = (a: Route, b: Route): number => {
+  for (let i = 0; i < a.segments.length; i++) {
+    const aParam = a.segments[i].startsWith(':');
+    const bParam = b.segments[i].startsWith(':');
+    if (aParam !== bParam) {
+      return aParam ? 1 : -1;
+    }
+  }
+  return 0;
+};
+
+const levenshtein = (a: string, b: string): number => {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+};
+
+// Finds registered patterns that are a small edit away from the requested path
+const findNearMatches = (routes: Route[], pathSegments: string[], limit = 3): string[] => {
+  const requested = '/' + pathSegments.join('/');
+  const scored = new Map<string, number>();
+
+  for (const route of routes) {
+    // Fill params with the caller's own segments so only the literal parts are compared
+    const candidate = route.segments.length === pathSegments.length
+      ? '/' + route.segments.map((segment, i) => (segment.startsWith(':') ? pathSegments[i] : segment)).join('/')
+      : route.pattern;
+    const distance = levenshtein(requested, candidate);
+    const threshold = Math.max(3, Math.floor(route.pattern.length / 4));
+
+    if (distance <= threshold && distance < (scored.get(route.pattern) ?? Infinity)) {
+      scored.set(route.pattern, distance);
+    }
+  }
+
+  return [...scored.entries()]
+    .sort((a, b) => a[1] - b[1])
+    .slice(0, limit)
+    .map(([pattern]) => pattern);
+};
+
+export const createRouter = (basePath = '/api') => {
+  const routes: Route[] = [];
+
+  const add = <P extends string>(method: HttpMethod, pattern: P, spec: RouteSpec, handler: RouteHandler<P>) => {
+    routes.push({ method, pattern, segments: splitPath(pattern), spec, handler });
+  };
+
+  // Each method accepts either (pattern, handler) or (pattern, spec, handler)
+  const registrar = (method: HttpMethod) => {
+    function register<P extends string>(pattern: P, handler: RouteHandler<P>): void;
+    function register<P extends string>(pattern: P, spec: RouteSpec, handler: RouteHandler<P>): void;
+    function register<P extends string>(pattern: P, specOrHandler: RouteSpec | RouteHandler<P>, handler?: RouteHandler<P>) {
+      if (typeof specOrHandler === 'function') {
+        add(method, pattern, {}, specOrHandler);
+      } else {
+        add(method, pattern, specOrHandler, handler!);
+      }
+    }
+    return register;
+  };
+
+  const resolvePath = (url: string | undefined): string[] => {
+    const { pathname } = new URL(url || '', 'http://localhost');
+    const path = pathname.startsWith(basePath) ? pathname.slice(basePath.length) : pathname;
+    return splitPath(path);
+  };
+
+  const handle = async (req: ApiRequest, res: ApiResponse) => {
+    const pathSegments = resolvePath(req.url);
+    const candidates = routes
+      .map(route => ({ route, params: matchSegments(route, pathSegments) }))
+      .filter((candidate): candidate is { route: Route; params: Record<string, string> } => candidate.params !== null);
+
+    if (candidates.length === 0) {
+      return sendError(res, 'ENDPOINT_NOT_FOUND', undefined, {
+        suggestions: findNearMatches(routes, pathSegments).map(pattern => `${basePath}${pattern}`),
+      });
+    }
+
+    const match = candidates
+      .filter(candidate => candidate.route.method === req.method)
+      .sort((a, b) => compareSpecificity(a.route, b.route))[0];
+
+    if (!match) {
+      const allowed = [...new Set(candidates.map(candidate => candidate.route.method))];
+      res.setHeader('Allow', allowed.join(', '));
+      return sendError(res, 'METHOD_NOT_ALLOWED');
+    }
+
+    // Callers are authorized before their request is validated, so the shape of a body is only discussed
+    // with someone allowed to send it. Bot signatures are checked against the body as sent, too.
+    const { spec, handler } = match.route;
+    if (!await authorizeRoute(handler, req, res, match.params)) {
+      return;
+    }
+
+    if (spec.body) {
+      const body = validateRequest(spec.body, req, res);
+      if (body === null) {
+        return;
+      }
+      req.body = body;
+    }
+    if (spec.query) {
+      const query = validateQuery(spec.query, req, res);
+      if (query === null) {
+        return;
+      }
+      req.query = query;
+    }
+
+    return handler(req, res, match.params);
+  };
+
+  return {
+    get: registrar('GET'),
+    post: registrar('POST'),
+    put: registrar('PUT'),
+    patch: registrar('PATCH'),
+    delete: registrar('DELETE'),
+    basePath,
+    routes: () => routes.map(({ method, pattern, spec, handler }) => ({ method, pattern, spec, handler })),
+    handle,
+  };
+};
+
+export type Router = ReturnType<typeof createRouter>;
@@ -0,0 +1,176 @@
+import { Schedule, WorkoutTemplate } from '@prisma/client';
+import { Db, prisma } from './prisma';
+import { getTemplateForLabel } from './templates';
+import { daysBetween, getLocalDate, getWeekday } from './timezone';
+import { getUserTimeZone } from './users';
+
+export type ScheduledDayType = 'workout' | 'rest';
+
+// What a member's schedule expects on a day, with the rotation label and the template it points to
+export interface ScheduledDay {
+  type: ScheduledDayType;
+  label: string | null; // Rotating schedules only, e.g. 'upper'
+  template: WorkoutTemplate | null;
+}
+
+// 'daily' streaks count days; 'weekly_goal' streaks count weeks with at least `weekly_goal` workouts
+export type StreakMode = 'daily' | 'weekly_goal';
+
+// The parts of a schedule that decide what a day is; both live schedules and their
+// recorded versions have them
+export interface ScheduleRules {
+  monday: boolean;
+  tuesday: boolean;
+  wednesday: boolean;
+  thursday: boolean;
+  friday: boolean;
+  saturday: boolean;
+  sunday: boolean;
+  is_active: boolean;
+  schedule_type: string;
+  rotation_pattern: string | null;
+  rotation_start: Date;
+  rest_days_allowed: boolean;
+  streak_mode: string;
+  weekly_goal: number | null;
+}
+
+const DAY_FIELDS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+const toRules = (schedule: Schedule): ScheduleRules => ({
+  monday: schedule.monday,
+  tuesday: schedule.tuesday,
+  wednesday: schedule.wednesday,
+  thursday: schedule.thursday,
+  friday: schedule.friday,
+  saturday: schedule.saturday,
+  sunday: schedule.sunday,
+  is_active: schedule.is_active,
+  schedule_type: schedule.schedule_type,
+  rotation_pattern: schedule.rotation_pattern,
+  rotation_start: schedule.created_at,
+  rest_days_allowed: schedule.rest_days_allowed,
+  streak_mode: schedule.streak_mode,
+  weekly_goal: schedule.weekly_goal,
+});
+
+const getRotationIndex = (rules: ScheduleRules, day: string, timeZone: string, length: number): number => {
+  const daysSinceStart = daysBetween(getLocalDate(rules.rotation_start, timeZone), day);
+  return ((daysSinceStart % length) + length) % length;
+};
+
+const getRotationLabel = (rules: ScheduleRules, day: string, timeZone: string): string | null => {
+  if (rules.schedule_type !== 'rotating' || !rules.rotation_pattern) {
+    return null;
+  }
+  const pattern = rules.rotation_pattern.split(',');
+  return pattern[getRotationIndex(rules, day, timeZone, pattern.length)].trim().toLowerCase();
+};
+
+// What a schedule expects on a calendar day ('YYYY-MM-DD' in `timeZone`), or null when it expects nothing
+export const getDayType = (rules: ScheduleRules, day: string, timeZone: string): ScheduledDayType | null => {
+  if (!rules.is_active) {
+    return null;
+  }
+
+  // For weekly schedules, check the day of week
+  if (rules.schedule_type === 'weekly') {
+    return rules[DAY_FIELDS[getWeekday(day)]] ? 'workout' : 'rest';
+  }
+
+  // For rotating schedules, use the rotation pattern
+  const label = getRotationLabel(rules, day, timeZone);
+  if (label) {
+    return label === 'rest' ? 'rest' : 'workout';
+  }
+
+  return null;
+};
+
+// How messages name a scheduled day, e.g. 'upper (Push Day)'
+export const describeScheduledDay = (scheduled: ScheduledDay | null): string =>
+  !scheduled ? 'not scheduled' : `${scheduled.label ?? scheduled.type}${scheduled.template ? ` (${scheduled.template.name})` : ''}`;
+
+// The streak mode a schedule asks for; weekly goals need an active schedule with a goal
+export const getStreakMode = (rules: ScheduleRules | null): StreakMode =>
+  rules && rules.is_active && rules.streak_mode === 'weekly_goal' && rules.weekly_goal ? 'weekly_goal' : 'daily';
+
+// Helper function to get user's schedule and determine day type, with the workout template planned for it.
+// The day is the calendar day `date` falls on in the member's timezone.
+export async function getScheduledDayType(userId: string, date: Date = new Date(), timeZone?: string): Promise<ScheduledDay | null> {
+  const schedule = await prisma.schedule.findUnique({
+    where: { user_id: userId },
+  });
+
+  if (!schedule || !schedule.is_active) {
+    return null; // No schedule or inactive
+  }
+
+  const zone = timeZone ?? await getUserTimeZone(userId);
+  const day = getLocalDate(date, zone);
+  const rules = toRules(schedule);
+
+  if (rules.schedule_type === 'rotating' && rules.rotation_pattern && day === getLocalDate(new Date(), zone)) {
+    // Update current rotation day
+    await prisma.schedule.update({
+      where: { id: schedule.id },
+      data: { current_rotation_day: getRotationIndex(rules, day, zone, rules.rotation_pattern.split(',').length) },
+    });
+  }
+
+  const type = getDayType(rules, day, zone);
+  if (!type) {
+    return null;
+  }
+
+  const label = getRotationLabel(rules, day, zone);
+  const template = type === 'workout' && label ? await getTemplateForLabel(userId, schedule.rotation_templates, label) : null;
+  return { type, label, template };
+}
+
+// Records a schedule write in the member's schedule history; `next` is null when the schedule was deleted.
+// A schedule saved before history was kept gets a version dated from its creation first.
+export async function recordScheduleChange(userId: string, previous: Schedule | null, next: Schedule | null) {
+  if (previous && await prisma.scheduleVersion.count({ where: { user_id: userId } }) === 0) {
+    await prisma.scheduleVersion.create({
+      data: { user_id: userId, effective_from: previous.created_at, ...toRules(previous) },
+    });
+  }
+
+  await prisma.scheduleVersion.create({
+    data: next
+      ? { user_id: userId, ...toRules(next) }
+      : { user_id: userId, is_active: false, rotation_start: new Date() },
+  });
+}
+
+// Resolves the schedule that applied on each calendar day. A version applies from the day it was
+// saved, so a change made during a day already counts for that day.
+export async function getScheduleTimeline(userId: string, timeZone: string, db: Db = prisma): Promise<(day: string) => ScheduleRules | null> {
+  const versions = await db.scheduleVersion.findMany({
+    where: { user_id: userId },
+    orderBy: { effective_from: 'asc' },
+  });
+
+  let entries: { from: string; rules: ScheduleRules }[] = versions.map(version => ({
+    from: getLocalDate(version.effective_from, timeZone),
+    rules: version,
+  }));
+
+  // Schedules untouched since history was kept apply from their creation
+  if (entries.length === 0) {
+    const schedule = await db.schedule.findUnique({ where: { user_id: userId } });
+    entries = schedule ? [{ from: getLocalDate(schedule.created_at, timeZone), rules: toRules(schedule) }] : [];
+  }
+
+  return (day: string) => {
+    let applied: ScheduleRules | null = null;
+    for (const entry of entries) {
+      if (entry.from > day) {
+        break;
+      }
+      applied = entry.rules;
+    }
+    return applied;
+  };
+}
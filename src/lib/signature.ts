@@ -0,0 +1,98 @@
+import crypto from 'crypto';
+import { ApiRequest } from './http';
+
+export const SIGNATURE_HEADER = 'x-bot-signature';
+export const TIMESTAMP_HEADER = 'x-bot-timestamp';
+export const NONCE_HEADER = 'x-bot-nonce';
+
+const DEFAULT_TOLERANCE_SECONDS = 300;
+const MAX_TRACKED_NONCES = 10000;
+
+// Nonces seen inside the replay window, mapped to when they may be forgotten (ms).
+// Serverless instances each keep their own cache; the timestamp window bounds the gap.
+const seenNonces = new Map<string, number>();
+
+export type BotSignatureResult = { valid: true } | { valid: false; reason: string };
+
+const getHeader = (req: ApiRequest, name: string): string | undefined => {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+const getToleranceSeconds = (): number => {
+  const configured = parseInt(process.env.BOT_SIGNATURE_TOLERANCE_SECONDS || '', 10);
+  return isNaN(configured) || configured < 1 ? DEFAULT_TOLERANCE_SECONDS : configured;
+};
+
+// The body exactly as sent. Vercel only exposes the parsed body, so there it is re-serialized, which gives
+// back what a client produced with JSON.stringify; bots are told to sign that form (DISCORD_BOT_UPDATE_PROMPT.md)
+export const getRawBody = (req: ApiRequest): string => {
+  if (req.rawBody !== undefined) {
+    return req.rawBody;
+  }
+  if (req.body === undefined || req.body === null || req.body === '') {
+    return '';
+  }
+  return typeof req.body === 'string' ? req.body : JSON.stringify(req.body);
+};
+
+export const getSignedPayload = (timestamp: string, nonce: string, method: string, url: string, body: string): string =>
+  [timestamp, nonce, method.toUpperCase(), url, body].join('\n');
+
+export const signBotRequest = (secret: string, payload: string): string =>
+  crypto.createHmac('sha256', secret).update(payload).digest('hex');
+
+export const hasBotSignature = (req: ApiRequest): boolean => !!getHeader(req, SIGNATURE_HEADER);
+
+const rememberNonce = (nonce: string, expiresAt: number, now: number): boolean => {
+  for (const [seen, expiry] of seenNonces) {
+    if (expiry <= now) {
+      seenNonces.delete(seen);
+    }
+  }
+
+  if (seenNonces.has(nonce)) {
+    return false;
+  }
+
+  if (seenNonces.size >= MAX_TRACKED_NONCES) {
+    const oldest = seenNonces.keys().next().value;
+    if (oldest !== undefined) {
+      seenNonces.delete(oldest);
+    }
+  }
+
+  seenNonces.set(nonce, expiresAt);
+  return true;
+};
+
+export const verifyBotSignature = (req: ApiRequest, secret: string, now: number = Date.now()): BotSignatureResult => {
+  const signature = getHeader(req, SIGNATURE_HEADER);
+  const timestamp = getHeader(req, TIMESTAMP_HEADER);
+  const nonce = getHeader(req, NONCE_HEADER);
+
+  if (!signature || !timestamp || !nonce) {
+    return { valid: false, reason: 'Signed bot requests need signature, timestamp and nonce headers' };
+  }
+
+  const timestampSeconds = Number(timestamp);
+  const toleranceSeconds = getToleranceSeconds();
+  if (!Number.isInteger(timestampSeconds) || Math.abs(now / 1000 - timestampSeconds) > toleranceSeconds) {
+    return { valid: false, reason: 'Bot request timestamp is outside the allowed window' };
+  }
+
+  const payload = getSignedPayload(timestamp, nonce, req.method || 'GET', req.url || '', getRawBody(req));
+  const expected = Buffer.from(signBotRequest(secret, payload), 'hex');
+  const received = Buffer.from(signature, 'hex');
+
+  if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+    return { valid: false, reason: 'Invalid bot request signature' };
+  }
+
+  // Only remember nonces of genuine requests so forged ones can't evict real entries
+  if (!rememberNonce(nonce, (timestampSeconds + toleranceSeconds) * 1000, now)) {
+    return { valid: false, reason: 'Bot request nonce has already been used' };
+  }
+
+  return { valid: true };
+};
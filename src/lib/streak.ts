@@ -1,85 +1,553 @@
-import { prisma } from './prisma';
+import { Db, inTransaction, prisma } from './prisma';
 import { CheckInStatus } from '@prisma/client';
+import { ErrorCode } from './errors';
+import { getDayType, getScheduleTimeline, getStreakMode, ScheduledDayType, StreakMode } from './schedule';
+import { addDays, getLocalDate, getWeekStart } from './timezone';
+import { getUserTimeZone } from './users';
+
+export type StreakUnit = 'days' | 'weeks';
 
 export interface StreakData {
+  mode: StreakMode;
+  unit: StreakUnit;
   current_streak: number;
   longest_streak: number;
   total_checkins: number;
+  streak_freezes: number;
+  // The day (or, for weekly goals, the week's first day) that broke a streak worth saving,
+  // which a freeze would cover
+  freezable_day: string | null;
+  // Explanation of the current streak in daily mode
+  days: StreakDay[];
+  // Explanation of the current streak in weekly_goal mode
+  weeks: StreakWeek[];
 }
 
-export const calculateStreak = async (userId: string): Promise<StreakData> => {
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: {
-      streak_count: true,
-      longest_streak: true,
-      total_checkins: true,
-    },
+// How one calendar day affected the streak:
+// counted  - a workout, or a rest day the schedule allows (logged or scheduled); adds a day
+// excused  - a rest day the schedule does not count; neither adds nor breaks
+// frozen   - would have broken the streak, but a streak freeze covers it; neither adds nor breaks
+// pending  - today, with nothing logged yet
+// broken   - a missed check-in, a skipped scheduled workout, or no check-in without a schedule
+export type StreakDayOutcome = 'counted' | 'excused' | 'frozen' | 'pending' | 'broken';
+
+export interface StreakDay {
+  date: string;
+  scheduled: ScheduledDayType | null;
+  checkin: CheckInStatus | null;
+  outcome: StreakDayOutcome;
+  reason: string;
+}
+
+// How one week (Monday to Sunday) affected a weekly-goal streak; outcomes as for days
+export interface StreakWeek {
+  week_start: string;
+  week_end: string;
+  workouts: number;
+  goal: number;
+  outcome: StreakDayOutcome;
+  reason: string;
+}
+
+// A day with several check-ins is judged by the best of them
+const STATUS_RANK: Record<CheckInStatus, number> = { went: 2, rest: 1, missed: 0 };
+
+// A freeze is earned for every this many days (or weeks) of a streak, while fewer than the cap are unspent
+export const STREAK_FREEZE_EARN_EVERY: Record<StreakMode, number> = { daily: 14, weekly_goal: 4 };
+export const MAX_EARNED_STREAK_FREEZES = 3;
+
+// For transactions that refresh a streak: interactive transactions default to 5s, and a long history takes
+// a while to re-evaluate
+export const STREAK_TRANSACTION_TIMEOUT_MS = 15000;
+
+// Freezes are only spent automatically on recent breaks, so an old streak isn't revived unasked.
+// A failed week is only known once it is over, so its first day may be up to two weeks back.
+const AUTO_FREEZE_WINDOW_DAYS: Record<StreakMode, number> = { daily: 7, weekly_goal: 14 };
+
+const judgeDay = (
+  checkin: CheckInStatus | null,
+  scheduled: ScheduledDayType | null,
+  restDaysAllowed: boolean,
+  isToday: boolean
+): Pick<StreakDay, 'outcome' | 'reason'> => {
+  if (checkin === 'went') {
+    return { outcome: 'counted', reason: 'Worked out' };
+  }
+  if (checkin === 'missed') {
+    return { outcome: 'broken', reason: 'Logged as missed' };
+  }
+  if (checkin === 'rest') {
+    if (restDaysAllowed) {
+      return { outcome: 'counted', reason: 'Logged a rest day' };
+    }
+    return scheduled === 'rest'
+      ? { outcome: 'excused', reason: 'Logged a scheduled rest day; this schedule does not count rest days' }
+      : { outcome: 'broken', reason: 'Rested on a scheduled workout day; this schedule does not allow rest days' };
+  }
+  if (scheduled === 'rest') {
+    return restDaysAllowed
+      ? { outcome: 'counted', reason: 'Scheduled rest day' }
+      : { outcome: 'excused', reason: 'Scheduled rest day; this schedule does not count rest days' };
+  }
+  if (isToday) {
+    return { outcome: 'pending', reason: 'Nothing logged yet today' };
+  }
+  return scheduled === 'workout'
+    ? { outcome: 'broken', reason: 'Scheduled workout with no check-in' }
+    : { outcome: 'broken', reason: 'No check-in' };
+};
+
+// One streak from its first to its last counted day (or week); the running streak has no break yet
+export interface StreakPeriodData {
+  start_day: string;
+  end_day: string;
+  length: number;
+  unit: StreakUnit;
+  break_day: string | null;
+  break_reason: string | null;
+}
+
+interface JudgedUnit {
+  first: string;
+  last: string;
+  outcome: StreakDayOutcome;
+  reason: string;
+}
+
+// Runs judged days or weeks, oldest first, into streaks. `sinceBreak` is the index of the unit that
+// broke the current streak (or 0), so units from there on explain it.
+const tally = (units: JudgedUnit[], unit: StreakUnit) => {
+  let current = 0;
+  let longest = 0;
+  let broken = 0;
+  let sinceBreak = 0;
+  const periods: StreakPeriodData[] = [];
+  let period = null as StreakPeriodData | null;
+
+  units.forEach((judged, index) => {
+    if (judged.outcome === 'broken') {
+      if (period) {
+        periods.push({ ...period, break_day: judged.first, break_reason: judged.reason });
+        period = null;
+      }
+      broken = current;
+      current = 0;
+      sinceBreak = index;
+    } else if (judged.outcome === 'counted') {
+      current++;
+      longest = Math.max(longest, current);
+      period = period
+        ? { ...period, end_day: judged.last, length: period.length + 1 }
+        : { start_day: judged.first, end_day: judged.last, length: 1, unit, break_day: null, break_reason: null };
+    }
   });
 
-  if (!user) {
-    throw new Error('User not found');
+  if (period) {
+    periods.push(period);
   }
 
+  const breaker = units[sinceBreak];
   return {
-    current_streak: user.streak_count,
-    longest_streak: user.longest_streak,
-    total_checkins: user.total_checkins,
+    current,
+    longest,
+    sinceBreak,
+    periods,
+    freezableDay: breaker?.outcome === 'broken' && broken > 0 ? breaker.first : null,
+  };
+};
+
+const frozen = (reason: string): Pick<StreakDay, 'outcome' | 'reason'> =>
+  ({ outcome: 'frozen', reason: `Covered by a streak freeze (${reason.toLowerCase()})` });
+
+// The definition of a streak. In daily mode every calendar day (in the member's timezone) from the
+// first check-in to today is judged against the schedule that applied on it; see StreakDayOutcome.
+// In weekly_goal mode every week is judged by its number of workouts instead. `days` / `weeks`
+// explain the current streak: oldest first, starting with the one that broke the previous streak.
+// Only reads, so read endpoints use it (or calculateStreak) directly; refreshStreak stores the result.
+export const evaluateStreak = async (userId: string, db: Db = prisma): Promise<{ streak: StreakData; periods: StreakPeriodData[] }> => {
+  const [checkins, freezes, user] = await Promise.all([
+    db.checkIn.findMany({
+      where: { user_id: userId },
+      select: { date: true, day: true, status: true },
+    }),
+    db.streakFreeze.findMany({
+      where: { user_id: userId },
+      select: { day: true },
+    }),
+    db.user.findUnique({
+      where: { id: userId },
+      select: { streak_freezes: true },
+    }),
+  ]);
+  const frozenDays = new Set(freezes.map(freeze => freeze.day));
+
+  const timeZone = await getUserTimeZone(userId, db);
+  const scheduleOn = await getScheduleTimeline(userId, timeZone, db);
+  const today = getLocalDate(new Date(), timeZone);
+  const currentRules = scheduleOn(today);
+  const mode = getStreakMode(currentRules);
+
+  // Check-ins logged before days were stored fall back to their timestamp's day
+  const checkinDays = checkins.map(checkin => ({ day: checkin.day ?? getLocalDate(checkin.date, timeZone), status: checkin.status }));
+
+  // Without check-ins only today is judged, so a scheduled rest day still starts a streak
+  const firstDay = checkinDays.reduce((earliest, { day }) => (day < earliest ? day : earliest), today);
+
+  let days: StreakDay[] = [];
+  let weeks: StreakWeek[] = [];
+  let result: ReturnType<typeof tally>;
+
+  if (mode === 'weekly_goal') {
+    const workouts = new Map<string, number>();
+    for (const { day, status } of checkinDays) {
+      if (status === 'went') {
+        const week = getWeekStart(day);
+        workouts.set(week, (workouts.get(week) ?? 0) + 1);
+      }
+    }
+
+    const currentWeek = getWeekStart(today);
+    for (let week = getWeekStart(firstDay); week <= currentWeek; week = addDays(week, 7)) {
+      const weekEnd = addDays(week, 6);
+      // Each week is held to the goal that applied at its end; weeks from before the goal use today's
+      const rules = scheduleOn(weekEnd < today ? weekEnd : today);
+      const goal = (getStreakMode(rules) === 'weekly_goal' ? rules!.weekly_goal : currentRules!.weekly_goal)!;
+      const done = workouts.get(week) ?? 0;
+
+      let judged: Pick<StreakWeek, 'outcome' | 'reason'>;
+      if (done >= goal) {
+        judged = { outcome: 'counted', reason: `Reached the goal with ${done} of ${goal} workouts` };
+      } else if (week === currentWeek) {
+        judged = { outcome: 'pending', reason: `${done} of ${goal} workouts so far this week` };
+      } else {
+        judged = { outcome: 'broken', reason: `Only ${done} of ${goal} workouts` };
+        if (frozenDays.has(week)) {
+          judged = frozen(judged.reason);
+        }
+      }
+      weeks.push({ week_start: week, week_end: weekEnd, workouts: done, goal, ...judged });
+    }
+
+    result = tally(weeks.map(entry => ({ first: entry.week_start, last: entry.week_end, ...entry })), 'weeks');
+    weeks = weeks.slice(result.sinceBreak);
+  } else {
+    const statuses = new Map<string, CheckInStatus>();
+    for (const { day, status } of checkinDays) {
+      const current = statuses.get(day);
+      if (!current || STATUS_RANK[status] > STATUS_RANK[current]) {
+        statuses.set(day, status);
+      }
+    }
+
+    for (let day = firstDay; day <= today; day = addDays(day, 1)) {
+      const rules = scheduleOn(day);
+      const scheduled = rules ? getDayType(rules, day, timeZone) : null;
+      const checkin = statuses.get(day) ?? null;
+      let judged = judgeDay(checkin, scheduled, rules?.rest_days_allowed ?? true, day === today);
+      if (judged.outcome === 'broken' && frozenDays.has(day)) {
+        judged = frozen(judged.reason);
+      }
+      days.push({ date: day, scheduled, checkin, ...judged });
+    }
+
+    result = tally(days.map(entry => ({ first: entry.date, last: entry.date, ...entry })), 'days');
+    days = days.slice(result.sinceBreak);
+  }
+
+  const streak: StreakData = {
+    mode,
+    unit: mode === 'weekly_goal' ? 'weeks' : 'days',
+    current_streak: result.current,
+    longest_streak: result.longest,
+    total_checkins: checkins.length, // Scheduled rest days don't count towards the total
+    streak_freezes: user?.streak_freezes ?? 0,
+    freezable_day: result.freezableDay,
+    days,
+    weeks,
   };
+
+  return { streak, periods: result.periods };
 };
 
-export const updateStreak = async (userId: string, checkInDate: Date, status: CheckInStatus): Promise<void> => {
-  const user = await prisma.user.findUnique({
+export async function calculateStreak(userId: string, db: Db = prisma): Promise<StreakData> {
+  return (await evaluateStreak(userId, db)).streak;
+}
+
+const samePeriod = (a: Omit<StreakPeriodData, 'unit'> & { unit: string }, b: StreakPeriodData): boolean =>
+  a.start_day === b.start_day
+  && a.end_day === b.end_day
+  && a.length === b.length
+  && a.unit === b.unit
+  && a.break_day === b.break_day
+  && a.break_reason === b.break_reason;
+
+// Brings the stored streak periods in line with the recomputed timeline, keyed by their first day. Usually
+// only the running period has grown, so only its row is written; a schedule change, a freeze or a corrected
+// day can also merge, split or remove periods.
+const syncStreakPeriods = async (userId: string, periods: StreakPeriodData[], db: Db) => {
+  const stored = await db.streakPeriod.findMany({
+    where: { user_id: userId },
+    select: { id: true, start_day: true, end_day: true, length: true, unit: true, break_day: true, break_reason: true },
+  });
+  const byStart = new Map(stored.map(period => [period.start_day, period]));
+
+  const gone = stored.filter(period => !periods.some(current => current.start_day === period.start_day));
+  const changed = periods.filter(period => {
+    const existing = byStart.get(period.start_day);
+    return !existing || !samePeriod(existing, period);
+  });
+  if (gone.length === 0 && changed.length === 0) {
+    return;
+  }
+
+  await inTransaction(db, async tx => {
+    await tx.streakPeriod.deleteMany({ where: { id: { in: gone.map(period => period.id) } } });
+    for (const period of changed) {
+      await tx.streakPeriod.upsert({
+        where: { user_id_start_day: { user_id: userId, start_day: period.start_day } },
+        create: { user_id: userId, ...period },
+        update: period,
+      });
+    }
+  });
+};
+
+type StreakColumn = 'current_streak' | 'longest_streak';
+
+// Past scheduled rest days and lapsed days change a streak without a check-in, so the scheduled
+// refresh recomputes stored values older than this. Within it, a stored value trails the live one by a day at most.
+const STREAK_STALE_AFTER_MS = 12 * 60 * 60 * 1000;
+
+// Takes a freeze from the inventory and spends it on `day`: true once the day is covered, false when no
+// freeze is left. A day a concurrent refresh already covered costs nothing; the insert skips the duplicate
+// rather than failing, which would also abort a surrounding transaction.
+const spendStreakFreeze = (userId: string, day: string, source: 'auto' | 'manual', db: Db = prisma): Promise<boolean> =>
+  inTransaction(db, async tx => {
+    const spent = await tx.streakFreeze.createMany({ data: [{ user_id: userId, day, source }], skipDuplicates: true });
+    if (spent.count === 0) {
+      return true;
+    }
+    const taken = await tx.user.updateMany({
+      where: { id: userId, streak_freezes: { gt: 0 } },
+      data: { streak_freezes: { decrement: 1 } },
+    });
+    if (taken.count === 0) {
+      await tx.streakFreeze.deleteMany({ where: { user_id: userId, day } });
+      return false;
+    }
+    return true;
+  });
+
+// The streak freeze milestones are counted in: the running streak's first day, and whether it is a new
+// streak since `storedStart`. Without a running streak, or when its first day only moved (a day logged
+// late, a mode change), the stored milestone still applies.
+const locateMilestoneStreak = (storedStart: string | null, periods: StreakPeriodData[]): { start: string | null; fresh: boolean } => {
+  const running = periods.length > 0 && periods[periods.length - 1].break_day === null ? periods[periods.length - 1] : null;
+  if (!running) {
+    return { start: storedStart, fresh: false };
+  }
+  const previous = periods.find(period => period.start_day === storedStart);
+  const broke = running.start_day !== storedStart && !!previous?.break_day && previous.break_day <= running.start_day;
+  return { start: running.start_day, fresh: broke };
+};
+
+// Recomputes a member's streak and stores it. This is the only code that writes the streak columns;
+// `streak_count` is kept as a mirror of `current_streak` for older clients. Along the way it spends
+// freezes on recently broken streaks (unless the member turned that off) and hands out earned ones.
+// Given a transaction as `db`, it reads and writes inside it, so the refresh commits with the caller's writes.
+export async function refreshStreak(userId: string, db: Db = prisma): Promise<StreakData> {
+  const stored = await db.user.findUnique({
     where: { id: userId },
-    include: {
-      checkins: {
-        where: {
-          status: 'went',
-        },
-        orderBy: {
-          date: 'desc',
-        },
-        take: 1,
-      },
+    select: {
+      current_streak: true,
+      streak_count: true,
+      longest_streak: true,
+      total_checkins: true,
+      streak_refreshed_at: true,
+      streak_freeze_milestone: true,
+      streak_freeze_start: true,
+      auto_streak_freeze: true,
     },
   });
 
-  if (!user) {
-    throw new Error('User not found');
+  let { streak, periods } = await evaluateStreak(userId, db);
+  if (!stored) {
+    return streak;
   }
 
-  let newStreakCount = 1;
-  let newLongestStreak = user.longest_streak;
-
-  if (status === 'went') {
-    const lastCheckIn = user.checkins[0];
-    
-    if (lastCheckIn) {
-      const lastCheckInDate = new Date(lastCheckIn.date);
-      const yesterday = new Date(checkInDate);
-      yesterday.setDate(yesterday.getDate() - 1);
-      
-      // Check if the last check-in was yesterday
-      if (lastCheckInDate.toDateString() === yesterday.toDateString()) {
-        newStreakCount = user.streak_count + 1;
+  if (stored.auto_streak_freeze) {
+    const windowStart = addDays(getLocalDate(new Date(), await getUserTimeZone(userId, db)), -AUTO_FREEZE_WINDOW_DAYS[streak.mode]);
+    while (streak.freezable_day && streak.freezable_day >= windowStart && streak.streak_freezes > 0) {
+      if (!await spendStreakFreeze(userId, streak.freezable_day, 'auto', db)) {
+        break;
       }
+      ({ streak, periods } = await evaluateStreak(userId, db));
     }
+  }
+
+  // Each milestone of a streak pays out once: it is never lowered while the streak lasts, and counts from
+  // zero again only for a streak started after a day that really broke the last one
+  const earnEvery = STREAK_FREEZE_EARN_EVERY[streak.mode];
+  const { start, fresh } = locateMilestoneStreak(stored.streak_freeze_start, periods);
+  const base = fresh ? 0 : stored.streak_freeze_milestone;
+  const milestone = Math.max(base, Math.floor(streak.current_streak / earnEvery) * earnEvery);
+  const earned = milestone > base
+    ? Math.min((milestone - base) / earnEvery, Math.max(0, MAX_EARNED_STREAK_FREEZES - streak.streak_freezes))
+    : 0;
+
+  const now = new Date();
+  const changed = stored.current_streak !== streak.current_streak
+    || stored.streak_count !== streak.current_streak
+    || stored.longest_streak !== streak.longest_streak
+    || stored.total_checkins !== streak.total_checkins
+    // Re-stamped well before it counts as stale, so members who are read regularly never are
+    || !stored.streak_refreshed_at
+    || now.getTime() - stored.streak_refreshed_at.getTime() > STREAK_STALE_AFTER_MS / 2;
+
+  if (changed) {
+    await db.user.update({
+      where: { id: userId },
+      data: {
+        current_streak: streak.current_streak,
+        streak_count: streak.current_streak,
+        longest_streak: streak.longest_streak,
+        total_checkins: streak.total_checkins,
+        streak_refreshed_at: now,
+      },
+    });
+  }
+
+  // Moved on only from the milestone read above, so of two refreshes racing past a milestone one awards it
+  let awarded = 0;
+  if (stored.streak_freeze_milestone !== milestone || stored.streak_freeze_start !== start) {
+    const moved = await db.user.updateMany({
+      where: { id: userId, streak_freeze_milestone: stored.streak_freeze_milestone, streak_freeze_start: stored.streak_freeze_start },
+      data: { streak_freeze_milestone: milestone, streak_freeze_start: start, streak_freezes: { increment: earned } },
+    });
+    awarded = moved.count > 0 ? earned : 0;
+  }
+
+  await syncStreakPeriods(userId, periods, db);
+
+  if (awarded > 0) {
+    await db.notification.create({
+      data: {
+        user_id: userId,
+        type: 'achievement',
+        title: '🧊 Streak freeze earned',
+        message: `${milestone} ${streak.unit} in a row! You earned ${awarded === 1 ? 'a streak freeze' : `${awarded} streak freezes`} to cover a missed day.`,
+        data: { streak: streak.current_streak, earned: awarded },
+      },
+    });
+  }
 
-    // Update longest streak if current streak is higher
-    if (newStreakCount > user.longest_streak) {
-      newLongestStreak = newStreakCount;
+  return { ...streak, streak_freezes: streak.streak_freezes + awarded };
+}
+
+// Rebuilds a member's streak columns and periods from their check-ins, schedule history and freezes
+export async function rebuildStreakHistory(userId: string): Promise<StreakData> {
+  await prisma.streakPeriod.deleteMany({ where: { user_id: userId } });
+  return refreshStreak(userId);
+}
+
+// Spends a freeze on the day that broke the member's streak, whatever its age
+export async function useStreakFreeze(userId: string): Promise<{ day: string; streak: StreakData } | { code: ErrorCode }> {
+  const { freezable_day: day, streak_freezes } = await calculateStreak(userId);
+  if (!day) {
+    return { code: 'STREAK_FREEZE_NOT_NEEDED' };
+  }
+  if (streak_freezes === 0 || !await spendStreakFreeze(userId, day, 'manual')) {
+    return { code: 'NO_STREAK_FREEZES' };
+  }
+  return { day, streak: await refreshStreak(userId) };
+}
+
+// Recomputes after check-ins were logged for past days. A freeze spent on such a day (or its week) goes
+// back to the inventory unless the day still breaks the streak without it.
+export async function refreshStreakFrom(userId: string, days: string | string[], db: Db = prisma): Promise<StreakData> {
+  const freezes = await db.streakFreeze.findMany({
+    where: { user_id: userId, day: { in: [days].flat().flatMap(day => [day, getWeekStart(day)]) } },
+    orderBy: { day: 'asc' },
+  });
+
+  for (const freeze of freezes) {
+    await inTransaction(db, async tx => {
+      await tx.streakFreeze.delete({ where: { id: freeze.id } });
+      await tx.user.update({ where: { id: userId }, data: { streak_freezes: { increment: 1 } } });
+    });
+    const { freezable_day } = await calculateStreak(userId, db);
+    if (freezable_day === freeze.day) {
+      await spendStreakFreeze(userId, freeze.day, freeze.source === 'manual' ? 'manual' : 'auto', db);
     }
-  } else {
-    // Reset streak on missed day
-    newStreakCount = 0;
   }
 
+  return refreshStreak(userId, db);
+}
+
+// Adds freezes to the inventory; they are not capped like earned ones
+export async function grantStreakFreezes(userId: string, count: number): Promise<StreakData> {
   await prisma.user.update({
     where: { id: userId },
-    data: {
-      streak_count: newStreakCount,
-      longest_streak: newLongestStreak,
-      total_checkins: user.total_checkins + 1,
+    data: { streak_freezes: { increment: count } },
+  });
+  // A recent break may be covered right away
+  return refreshStreak(userId);
+}
+
+// Refreshes every member whose stored streak is older than STREAK_STALE_AFTER_MS, for the scheduled
+// `streaks:recompute -- --stale` run. Returns how many were refreshed and which ids failed.
+export async function refreshStaleStreaks(): Promise<{ refreshed: number; failed: string[] }> {
+  const stale = await prisma.user.findMany({
+    where: {
+      OR: [
+        { streak_refreshed_at: null },
+        { streak_refreshed_at: { lt: new Date(Date.now() - STREAK_STALE_AFTER_MS) } },
+      ],
     },
+    select: { id: true },
+    orderBy: { created_at: 'asc' },
   });
-};
+
+  const failed: string[] = [];
+  for (const user of stale) {
+    try {
+      await refreshStreak(user.id);
+    } catch (error) {
+      console.error(`Streak refresh for ${user.id} failed:`, error);
+      failed.push(user.id);
+    }
+  }
+  return { refreshed: stale.length - failed.length, failed };
+}
+
+// Most live streaks evaluated for one leaderboard, however far the stored columns have drifted
+const MAX_RANKED_CANDIDATES_FACTOR = 3;
+
+// Members ranked by live streak, read-only. Candidates come in stored order; with the scheduled refresh a
+// stored value trails the live one by at most a day, so they are evaluated until no remaining one can reach
+// the top `limit`, and never more than a few times `limit`. Days and weeks don't compare, so only members
+// in `mode` are ranked.
+export async function rankByStreak(column: StreakColumn, limit: number, mode: StreakMode = 'daily'): Promise<{ userId: string; streak: StreakData }[]> {
+  const weeklyGoal = { schedules: { some: { is_active: true, streak_mode: 'weekly_goal', weekly_goal: { not: null } } } };
+  const inMode = mode === 'weekly_goal' ? weeklyGoal : { NOT: weeklyGoal };
+
+  const candidates = await prisma.user.findMany({
+    where: inMode,
+    select: { id: true, current_streak: true, longest_streak: true },
+    orderBy: [{ [column]: 'desc' }, { id: 'asc' }],
+    take: limit * MAX_RANKED_CANDIDATES_FACTOR,
+  });
+
+  const ranked: { userId: string; streak: StreakData }[] = [];
+  for (const candidate of candidates) {
+    const floor = ranked.length >= limit ? ranked[limit - 1].streak[column] : -1;
+    if (candidate[column] + 1 <= floor) {
+      break;
+    }
+
+    ranked.push({ userId: candidate.id, streak: await calculateStreak(candidate.id) });
+    ranked.sort((a, b) => b.streak[column] - a.streak[column]);
+  }
+
+  return ranked.slice(0, limit);
+}
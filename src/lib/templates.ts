@@ -0,0 +1,115 @@
+import { Prisma, WorkoutTemplate } from '@prisma/client';
+import { Caller } from './auth';
+import { prisma } from './prisma';
+import { ErrorCode } from './errors';
+import { findOrCreateExercise, WeightUnit } from './exercises';
+import { ExerciseEntryInput, TemplateExerciseInput } from './validation';
+
+// A planned exercise as stored on a template
+export interface PlannedExercise {
+  exercise_id: string;
+  name: string;
+  sets: number;
+  reps: number;
+  weight: number | null;
+  unit: WeightUnit;
+}
+
+// Templates a member may use: their own, and those shared with the guild they use the bot in
+const usableBy = async (userId: string): Promise<Prisma.WorkoutTemplateWhereInput> => {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { guild_id: true } });
+  return { OR: [{ owner_id: userId }, ...(user?.guild_id ? [{ guild_id: user.guild_id }] : [])] };
+};
+
+// Templates a caller may see: shared ones for everyone, private ones only for their owner (and admins)
+export const visibleTo = (caller: Caller | null): Prisma.WorkoutTemplateWhereInput => {
+  if (caller?.type === 'user' && caller.isAdmin) {
+    return {};
+  }
+  const shared = { guild_id: { not: null } };
+  return caller?.type === 'user' ? { OR: [shared, { owner_id: caller.user.id }] } : shared;
+};
+
+// A member may only share templates with the guild they use the bot in; admins with any
+export const checkTemplateGuild = async (caller: Caller, guildId: string | null | undefined): Promise<{ code: ErrorCode; error?: string } | null> => {
+  if (!guildId || caller.type !== 'user' || caller.isAdmin) {
+    return null;
+  }
+  const user = await prisma.user.findUnique({ where: { id: caller.user.id }, select: { guild_id: true } });
+  return user?.guild_id === guildId ? null : { code: 'FORBIDDEN', error: 'Templates can only be shared with the Discord server you use the bot in' };
+};
+
+// Bot requests name the guild they came from; the member's templates are scoped to the latest one
+export const setUserGuild = async (userId: string, guildId: string | undefined): Promise<void> => {
+  if (!guildId) {
+    return;
+  }
+  await prisma.user.update({ where: { id: userId }, data: { guild_id: guildId } });
+};
+
+export const getPlannedExercises = (template: WorkoutTemplate): PlannedExercise[] =>
+  Array.isArray(template.exercises) ? template.exercises as unknown as PlannedExercise[] : [];
+
+export const toTemplateResponse = (template: WorkoutTemplate) => ({
+  id: template.id,
+  owner_id: template.owner_id,
+  guild_id: template.guild_id,
+  name: template.name,
+  description: template.description,
+  workout_type: template.workout_type,
+  duration_minutes: template.duration_minutes,
+  exercises: getPlannedExercises(template),
+  created_at: template.created_at,
+  updated_at: template.updated_at,
+});
+
+// Resolves planned exercises against the catalogue, adding new names as check-ins do
+export async function planExercises(entries: TemplateExerciseInput[]): Promise<PlannedExercise[] | { code: ErrorCode; error?: string }> {
+  const planned: PlannedExercise[] = [];
+  for (const { sets, reps, weight, unit, ...entry } of entries) {
+    const exercise = await findOrCreateExercise(entry);
+    if ('code' in exercise) {
+      return exercise;
+    }
+    planned.push({ exercise_id: exercise.id, name: exercise.name, sets, reps, weight: weight ?? null, unit: unit ?? 'kg' });
+  }
+  return planned;
+}
+
+// Resolves the owner for access checks on /templates/:id
+export const getTemplateOwner = async (id: string): Promise<string | null> => {
+  const template = await prisma.workoutTemplate.findUnique({ where: { id }, select: { owner_id: true } });
+  return template?.owner_id ?? null;
+};
+
+// Checks that every template a schedule's rotation labels point to exists and may be used by the member
+export async function checkRotationTemplates(userId: string, rotationTemplates: Record<string, string>): Promise<{ code: ErrorCode; error?: string } | null> {
+  const ids = [...new Set(Object.values(rotationTemplates))];
+  const found = await prisma.workoutTemplate.findMany({ where: { id: { in: ids }, ...await usableBy(userId) }, select: { id: true } });
+  const missing = ids.filter(id => !found.some(template => template.id === id));
+  return missing.length > 0 ? { code: 'TEMPLATE_NOT_FOUND', error: `Workout template not found: ${missing.join(', ')}` } : null;
+}
+
+// Rotation labels are matched case-insensitively, as the pattern itself is
+export const toRotationTemplates = (rotationTemplates: Record<string, string> | undefined): Prisma.InputJsonObject | undefined =>
+  rotationTemplates && Object.fromEntries(Object.entries(rotationTemplates).map(([label, id]) => [label.toLowerCase(), id]));
+
+// The template a rotation label points to, if it still exists and may be used
+export async function getTemplateForLabel(userId: string, rotationTemplates: Prisma.JsonValue | null, label: string): Promise<WorkoutTemplate | null> {
+  const id = rotationTemplates && typeof rotationTemplates === 'object' && !Array.isArray(rotationTemplates)
+    ? rotationTemplates[label]
+    : undefined;
+  if (typeof id !== 'string') {
+    return null;
+  }
+  return prisma.workoutTemplate.findFirst({ where: { id, ...await usableBy(userId) } });
+}
+
+// Check-in fields a template suggests: its workout type (or name) and each planned set
+export const prefillFromTemplate = (template: WorkoutTemplate): { workout_type: string; exercises: ExerciseEntryInput[] } => ({
+  workout_type: template.workout_type ?? template.name,
+  exercises: getPlannedExercises(template).map(({ exercise_id, sets, reps, weight, unit }) => ({
+    exercise_id,
+    sets: Array.from({ length: sets }, () => ({ reps, weight: weight ?? undefined, unit })),
+  })),
+});
@@ -0,0 +1,88 @@
+// Calendar days are handled as 'YYYY-MM-DD' keys in the member's IANA timezone.
+// Instants are only converted at the edges (reading check-in dates, building DB ranges),
+// so day arithmetic never sees DST: a day is a day, whether it lasted 23, 24 or 25 hours.
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const getZonedParts = (instant: Date, timeZone: string) => {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of getFormatter(timeZone).formatToParts(instant)) {
+    if (type !== 'literal') {
+      parts[type] = parseInt(value, 10);
+    }
+  }
+  return parts;
+};
+
+// Offset of the zone from UTC at the given instant, in ms (e.g. +2h for Europe/Berlin in summer)
+const getOffset = (instant: Date, timeZone: string): number => {
+  const p = getZonedParts(instant, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+};
+
+const parseDateKey = (dateKey: string): number => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+const toDateKey = (utcMidnight: number): string => new Date(utcMidnight).toISOString().slice(0, 10);
+
+// Calendar day of an instant in the zone, e.g. 2024-03-10T06:30Z in America/Los_Angeles -> '2024-03-09'
+export const getLocalDate = (instant: Date, timeZone: string): string => {
+  const p = getZonedParts(instant, timeZone);
+  return toDateKey(Date.UTC(p.year, p.month - 1, p.day));
+};
+
+export const addDays = (dateKey: string, days: number): string => toDateKey(parseDateKey(dateKey) + days * MS_PER_DAY);
+
+// Whole calendar days from `from` to `to`; negative when `to` is earlier
+export const daysBetween = (from: string, to: string): number => Math.round((parseDateKey(to) - parseDateKey(from)) / MS_PER_DAY);
+
+// 0 = Sunday … 6 = Saturday, like Date#getDay
+export const getWeekday = (dateKey: string): number => new Date(parseDateKey(dateKey)).getUTCDay();
+
+// Monday of the week `day` falls in
+export const getWeekStart = (day: string): string => addDays(day, -((getWeekday(day) + 6) % 7));
+
+// First instant of the calendar day in the zone. Midnight can be skipped or repeated by a DST change,
+// so both offsets around it are tried and the earliest instant that falls on the day wins.
+export const getStartOfDay = (dateKey: string, timeZone: string): Date => {
+  const utcMidnight = parseDateKey(dateKey);
+  const first = utcMidnight - getOffset(new Date(utcMidnight), timeZone);
+  const second = utcMidnight - getOffset(new Date(first), timeZone);
+
+  const candidates = [first, second]
+    .filter(candidate => getLocalDate(new Date(candidate), timeZone) === dateKey)
+    .sort((a, b) => a - b);
+
+  return new Date(candidates[0] ?? first);
+};
+
+// Half-open [start, end) range of instants covering the calendar day, for `gte`/`lt` queries
+export const getDayRange = (dateKey: string, timeZone: string): { start: Date; end: Date } => ({
+  start: getStartOfDay(dateKey, timeZone),
+  end: getStartOfDay(addDays(dateKey, 1), timeZone),
+});
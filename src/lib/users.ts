@@ -0,0 +1,30 @@
+import { Db, prisma } from './prisma';
+import { DEFAULT_TIME_ZONE } from './timezone';
+import { isValidTimeZone } from './validation';
+
+// Resolves the owner for access checks on /users/:id: the user themselves, once they exist
+export const getUserOwner = async (id: string): Promise<string | null> => {
+  const user = await prisma.user.findUnique({ where: { id }, select: { id: true } });
+  return user?.id ?? null;
+};
+
+// The member's timezone. User.timezone is the source of truth; members who only ever set one on
+// their schedule (before profiles carried it) still get that one instead of the UTC default.
+export const getUserTimeZone = async (userId: string, db: Db = prisma): Promise<string> => {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { timezone: true, schedules: { select: { timezone: true }, take: 1 } },
+  });
+
+  const candidates = [user?.timezone, user?.schedules[0]?.timezone];
+  const preferred = candidates.find(timeZone => timeZone && timeZone !== DEFAULT_TIME_ZONE && isValidTimeZone(timeZone));
+  return preferred ?? DEFAULT_TIME_ZONE;
+};
+
+// Schedules carry a timezone field too; setting one there updates the member's profile as well
+export const setUserTimeZone = async (userId: string, timeZone: string | undefined): Promise<void> => {
+  if (!timeZone) {
+    return;
+  }
+  await prisma.user.update({ where: { id: userId }, data: { timezone: timeZone } });
+};
@@ -1,47 +1,432 @@
 import { z } from 'zod';
+import { ErrorCode } from './errors';
+
+// Shared field schemas
+const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const;
+
+export const ROTATION_DAY_TYPES = ['upper', 'lower', 'rest', 'cardio', 'strength', 'workout'];
+
+export const isValidTimeZone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// A 'YYYY-MM-DD' date or ISO 8601 timestamp on a real calendar day. Date.parse rolls impossible days
+// over ('2024-02-30' becomes March 1st), so the day must also come back unchanged from Date.UTC.
+export const isValidDateInput = (value: string): boolean => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})(?:$|T)/.exec(value);
+  if (!match || isNaN(Date.parse(value))) {
+    return false;
+  }
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+const timezoneSchema = z.string().refine(isValidTimeZone, { message: 'Must be a valid IANA timezone, e.g. Europe/Berlin' });
+const reminderTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Must be a time in HH:MM format');
+const discordIdSchema = z.string().min(1, 'Discord ID is required');
+const usernameSchema = z.string().min(1, 'Username is required');
+const dateInputSchema = z.string().refine(isValidDateInput, { message: 'Must be a valid ISO 8601 date' });
+
+// Query strings arrive as text, so numbers are coerced
+const pageSchema = z.coerce.number().int().min(1, 'Page must be a positive number').default(1);
+const limitSchema = (max: number, fallback: number) =>
+  z.coerce.number().int().min(1, `Limit must be between 1 and ${max}`).max(max, `Limit must be between 1 and ${max}`).default(fallback);
+
+const weekdayFields = {
+  monday: z.boolean().optional(),
+  tuesday: z.boolean().optional(),
+  wednesday: z.boolean().optional(),
+  thursday: z.boolean().optional(),
+  friday: z.boolean().optional(),
+  saturday: z.boolean().optional(),
+  sunday: z.boolean().optional(),
+};
+
+// Custom issues can name a catalogue code, which then becomes the response's code
+const issue = (code: ErrorCode, path: string, message: string) => ({
+  code: z.ZodIssueCode.custom,
+  path: [path],
+  message,
+  params: { code },
+});
+
+const hasAnyWeekday = (schedule: Partial<Record<typeof WEEKDAYS[number], boolean>>): boolean =>
+  WEEKDAYS.some(day => schedule[day]);
 
 // User validation schemas
 export const updateUserSchema = z.object({
-  bio: z.string().optional(),
+  bio: z.string().max(500).optional(),
   avatar_url: z.string().url().optional(),
+  timezone: timezoneSchema.optional(),
 });
 
+// Exercises are named or picked from the catalogue by id; unknown names join the catalogue
+const exerciseSetSchema = z.object({
+  reps: z.number().int().min(1, 'Reps must be at least 1').max(1000),
+  weight: z.number().nonnegative().max(2000).optional(),
+  unit: z.enum(['kg', 'lb'], { errorMap: () => ({ message: 'Unit must be kg or lb' }) }).optional(),
+  rpe: z.number().min(1, 'RPE must be between 1 and 10').max(10, 'RPE must be between 1 and 10').optional(),
+});
+
+const exerciseEntrySchema = z.object({
+  exercise_id: z.string().min(1).optional(),
+  name: z.string().trim().min(1).max(100).optional(),
+  sets: z.array(exerciseSetSchema).min(1, 'At least one set is required').max(50),
+}).refine(entry => entry.exercise_id || entry.name, { message: 'Give an exercise_id or a name', path: ['name'] });
+
+const exercisesSchema = z.array(exerciseEntrySchema).max(30);
+
 // Check-in validation schemas
 export const createCheckInSchema = z.object({
-  date: z.string().datetime().optional().default(() => new Date().toISOString()),
-  status: z.enum(['went', 'missed']),
+  workout_type: z.string().trim().min(1, 'Workout type is required'),
+  date: dateInputSchema.optional(),
+  notes: z.string().optional(),
   photo_url: z.string().url().optional(),
-  discord_message_id: z.string().optional(),
+  duration_minutes: z.number().int().positive().optional(),
+  calories_burned: z.number().int().nonnegative().optional(),
+  exercises: exercisesSchema.optional(),
+});
+
+// null clears an optional field; the date is fixed once logged
+const checkInChangeFields = z.object({
+  status: z.enum(['went', 'missed', 'rest']).optional(),
+  workout_type: z.string().trim().min(1, 'Workout type cannot be empty').nullable().optional(),
+  notes: z.string().nullable().optional(),
+  photo_url: z.string().url().nullable().optional(),
+  duration_minutes: z.number().int().positive().nullable().optional(),
+  calories_burned: z.number().int().nonnegative().nullable().optional(),
+});
+
+const hasAnyChange = (changes: Record<string, unknown>): boolean =>
+  Object.keys(checkInChangeFields.shape).some(key => changes[key] !== undefined);
+
+export const updateCheckInSchema = checkInChangeFields.refine(hasAnyChange, { message: 'Nothing to update', path: ['body'] });
+
+// Longest activity file accepted, in characters
+const MAX_IMPORT_FILE_LENGTH = 2 * 1024 * 1024;
+
+// Activity files are sent as text; see src/lib/imports.ts for what is read from each format
+export const importCheckInsSchema = z.object({
+  files: z.array(z.object({
+    format: z.enum(['gpx', 'tcx', 'csv'], { errorMap: () => ({ message: 'Format must be gpx, tcx or csv' }) }),
+    name: z.string().max(255).optional(),
+    content: z.string().min(1, 'File content is required').max(MAX_IMPORT_FILE_LENGTH, 'Each file can be at most 2 MB of text'),
+  })).min(1, 'At least one file is required').max(20),
+  dry_run: z.boolean().default(false),
 });
 
 // Schedule validation schemas
 export const createScheduleSchema = z.object({
-  days_of_week: z.array(z.string()).min(1).max(7),
-  time: z.string().optional(),
+  ...weekdayFields,
+  timezone: timezoneSchema.optional(),
+  reminder_time: reminderTimeSchema.optional(),
+  is_active: z.boolean().optional(),
+}).refine(hasAnyWeekday, { message: 'At least one day must be selected', path: ['days'], params: { code: 'SCHEDULE_NO_DAYS' } });
+
+const flexibleScheduleFields = z.object({
+  schedule_type: z.enum(['weekly', 'rotating', 'custom'], {
+    errorMap: () => ({ message: 'Schedule type must be weekly, rotating, or custom' }),
+  }),
+  rotation_pattern: z.string().optional(),
+  ...weekdayFields,
+  timezone: timezoneSchema.optional(),
+  reminder_time: reminderTimeSchema.optional(),
+  rest_days_allowed: z.boolean().optional(),
+  streak_mode: z.enum(['daily', 'weekly_goal'], {
+    errorMap: () => ({ message: 'Streak mode must be daily or weekly_goal' }),
+  }).optional(),
+  weekly_goal: z.number().int().min(1, 'Weekly goal must be between 1 and 7').max(7, 'Weekly goal must be between 1 and 7').optional(),
+  // Rotation label -> workout template id
+  rotation_templates: z.record(z.string(), z.string().min(1)).optional(),
+});
+
+const refineFlexibleSchedule = (schedule: z.infer<typeof flexibleScheduleFields>, ctx: z.RefinementCtx) => {
+  if (schedule.schedule_type === 'rotating') {
+    if (!schedule.rotation_pattern) {
+      ctx.addIssue(issue('SCHEDULE_INVALID_PATTERN', 'rotation_pattern', 'Rotation pattern is required for rotating schedules'));
+      return;
+    }
+
+    const pattern = schedule.rotation_pattern.split(',').map(p => p.trim().toLowerCase());
+    const invalidTypes = pattern.filter(p => !ROTATION_DAY_TYPES.includes(p));
+    if (invalidTypes.length > 0) {
+      ctx.addIssue(issue(
+        'SCHEDULE_INVALID_PATTERN',
+        'rotation_pattern',
+        `Invalid workout types in pattern: ${invalidTypes.join(', ')}. Valid types: ${ROTATION_DAY_TYPES.join(', ')}`
+      ));
+    }
+  }
+
+  if (schedule.rotation_templates) {
+    const labels = schedule.schedule_type === 'rotating' && schedule.rotation_pattern
+      ? schedule.rotation_pattern.split(',').map(p => p.trim().toLowerCase()).filter(p => p !== 'rest')
+      : [];
+    const unknown = Object.keys(schedule.rotation_templates).filter(label => !labels.includes(label.toLowerCase()));
+    if (unknown.length > 0) {
+      ctx.addIssue(issue(
+        'SCHEDULE_INVALID_PATTERN',
+        'rotation_templates',
+        `Templates can only be set for workout labels of the rotation pattern; not in it: ${unknown.join(', ')}`
+      ));
+    }
+  }
+
+  // Weekly goals don't depend on fixed days
+  if (schedule.schedule_type === 'weekly' && schedule.streak_mode !== 'weekly_goal' && !hasAnyWeekday(schedule)) {
+    ctx.addIssue(issue('SCHEDULE_NO_DAYS', 'days', 'At least one day must be selected for weekly schedules'));
+  }
+
+  if (schedule.streak_mode === 'weekly_goal' && schedule.weekly_goal === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['weekly_goal'], message: 'Weekly goal is required for the weekly_goal streak mode' });
+  }
+};
+
+export const flexibleScheduleSchema = flexibleScheduleFields.superRefine(refineFlexibleSchedule);
+
+// Workout template validation schemas
+const templateExerciseSchema = z.object({
+  exercise_id: z.string().min(1).optional(),
+  name: z.string().trim().min(1).max(100).optional(),
+  sets: z.number().int().min(1, 'Sets must be at least 1').max(50),
+  reps: z.number().int().min(1, 'Reps must be at least 1').max(1000),
+  weight: z.number().nonnegative().max(2000).optional(),
+  unit: z.enum(['kg', 'lb'], { errorMap: () => ({ message: 'Unit must be kg or lb' }) }).optional(),
+}).refine(entry => entry.exercise_id || entry.name, { message: 'Give an exercise_id or a name', path: ['name'] });
+
+const templateFields = z.object({
+  name: z.string().trim().min(1, 'Template name is required').max(100),
+  description: z.string().max(500).nullable().optional(),
+  workout_type: z.string().trim().min(1).max(100).nullable().optional(),
+  duration_minutes: z.number().int().positive().nullable().optional(),
+  exercises: z.array(templateExerciseSchema).max(30).optional(),
+  // Shares the template with everyone in this Discord guild
+  guild_id: discordIdSchema.nullable().optional(),
 });
 
+export const createTemplateSchema = templateFields;
+
+export const updateTemplateSchema = templateFields.partial()
+  .refine(changes => Object.values(changes).some(value => value !== undefined), { message: 'Nothing to update', path: ['body'] });
+
 // Cheer validation schemas
 export const createCheerSchema = z.object({
-  to_user_id: z.string().cuid(),
-  message: z.string().max(500).optional(),
+  to_user_id: z.string().min(1, 'Recipient user ID is required'),
+  message: z.string().trim().min(1, 'Cheer message is required').max(500),
+  type: z.string().optional(),
+});
+
+// Notification validation schemas
+export const markNotificationsReadSchema = z.object({
+  notification_ids: z.array(z.string().min(1), { invalid_type_error: 'notification_ids must be an array' }).min(1),
+});
+
+// Discord bot validation schemas
+export const discordUserSchema = z.object({
+  discord_id: discordIdSchema,
+  username: usernameSchema,
+  avatar_url: z.string().url().optional(),
+  // The guild the command was run in; the member may use templates shared with it
+  guild_id: discordIdSchema.optional(),
+});
+
+const discordCheckInFields = discordUserSchema.extend({
+  status: z.enum(['went', 'missed', 'rest']).optional(),
+  photo_url: z.string().url().optional(),
+  date: dateInputSchema.optional(),
+  workout_type: z.string().optional(),
+  notes: z.string().optional(),
+  duration_minutes: z.number().int().positive().optional(),
+  calories_burned: z.number().int().nonnegative().optional(),
+  discord_message_id: z.string().optional(),
+  exercises: exercisesSchema.optional(),
+});
+
+const exercisesNeedWorkout = (checkin: { status?: string; exercises?: unknown[] }): boolean =>
+  !checkin.exercises?.length || !checkin.status || checkin.status === 'went';
+
+export const discordCheckInSchema = discordCheckInFields.refine(exercisesNeedWorkout, {
+  message: 'Exercises can only be logged with a workout',
+  path: ['exercises'],
+});
+
+// Check-ins the bot queued while the API was unreachable, oldest first. `date` is when the member ran the
+// command, and the message ID makes a resent check-in a duplicate rather than a second one.
+export const discordCheckInBatchSchema = z.object({
+  checkins: z.array(discordCheckInFields.extend({
+    client_id: z.string().min(1, 'Client ID is required').max(100),
+    date: dateInputSchema,
+    discord_message_id: z.string().min(1, 'Discord message ID is required'),
+  }).refine(exercisesNeedWorkout, {
+    message: 'Exercises can only be logged with a workout',
+    path: ['exercises'],
+  })).min(1, 'At least one check-in is required').max(100, 'At most 100 check-ins per batch'),
+}).refine(batch => new Set(batch.checkins.map(checkin => checkin.client_id)).size === batch.checkins.length, {
+  message: 'Client IDs must be unique within a batch',
+  path: ['checkins'],
+});
+
+export const discordRestDaySchema = discordUserSchema.extend({
+  notes: z.string().optional(),
+  date: dateInputSchema.optional(),
+  discord_message_id: z.string().optional(),
+});
+
+// Bot edits and deletions find the check-in by the message it was logged from, among the member's own
+const discordCheckInTargetFields = {
+  discord_id: discordIdSchema,
+  discord_message_id: z.string().min(1, 'Discord message ID is required'),
+};
+
+export const discordUpdateCheckInSchema = checkInChangeFields.extend(discordCheckInTargetFields)
+  .refine(hasAnyChange, { message: 'Nothing to update', path: ['body'] });
+
+export const discordDeleteCheckInSchema = z.object(discordCheckInTargetFields);
+
+const SCHEDULE_ACTIONS = ['create', 'update', 'get', 'delete'];
+
+// Checked on its own first so an unknown action gets its own code instead of a generic union error
+const scheduleActionSchema = z.object({ action: z.unknown() }).passthrough().superRefine((body, ctx) => {
+  if (typeof body.action !== 'string' || !SCHEDULE_ACTIONS.includes(body.action)) {
+    ctx.addIssue(issue('SCHEDULE_INVALID_ACTION', 'action', 'Invalid action. Use: create, update, get, or delete'));
+  }
+});
+
+export const discordScheduleSchema = scheduleActionSchema.pipe(z.discriminatedUnion('action', [
+  flexibleScheduleFields.extend({ action: z.literal('create'), discord_id: discordIdSchema, guild_id: discordIdSchema.optional() }),
+  flexibleScheduleFields.extend({ action: z.literal('update'), discord_id: discordIdSchema, guild_id: discordIdSchema.optional() }),
+  z.object({ action: z.literal('get'), discord_id: discordIdSchema }),
+  z.object({ action: z.literal('delete'), discord_id: discordIdSchema }),
+]).superRefine((body, ctx) => {
+  if (body.action === 'create' || body.action === 'update') {
+    refineFlexibleSchedule(body, ctx);
+  }
+}));
+
+export const discordStreakFreezeSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('get'), discord_id: discordIdSchema }),
+  z.object({ action: z.literal('use'), discord_id: discordIdSchema }),
+  z.object({ action: z.literal('auto'), discord_id: discordIdSchema, enabled: z.boolean() }),
+], { errorMap: () => ({ message: 'Invalid action. Use: get, use, or auto' }) });
+
+export const grantStreakFreezesSchema = z.object({
+  count: z.number().int().min(1).max(10).default(1),
+});
+
+export const discordCheckInEmbedSchema = z.object({
+  user_id: z.string().min(1, 'User ID is required'),
+  checkin_id: z.string().optional(),
+});
+
+export const discordCheerEmbedSchema = z.object({
+  cheer_id: z.string().min(1, 'Cheer ID is required'),
+});
+
+export const discordWebhookSchema = z.object({
+  webhook_url: z.string().url('Invalid webhook URL format'),
+  event_type: z.string().min(1, 'Event type is required'),
+  data: z.record(z.any()),
 });
 
 // Query validation schemas
-export const userIdParamSchema = z.object({
-  id: z.string().cuid(),
+export const authCallbackQuerySchema = z.object({
+  code: z.string().min(1, 'Authorization code required'),
 });
 
-export const userIdQuerySchema = z.object({
-  userId: z.string().cuid(),
+export const discordProfileEmbedQuerySchema = z.object({
+  discord_id: discordIdSchema,
 });
 
-// Error response helper
-export const createErrorResponse = (message: string, statusCode: number = 400) => ({
-  error: message,
-  statusCode,
-  timestamp: new Date().toISOString(),
+export const streakLeaderboardQuerySchema = z.object({
+  limit: limitSchema(50, 10),
+  type: z.enum(['current', 'longest']).default('current'),
+  mode: z.enum(['daily', 'weekly_goal']).default('daily'),
+});
+
+export const checkinLeaderboardQuerySchema = z.object({
+  limit: limitSchema(50, 10),
+  period: z.enum(['all', 'week', 'month', 'year']).default('all'),
+  by: z.enum(['checkins', 'sessions']).default('checkins'),
+});
+
+export const galleryQuerySchema = z.object({
+  page: pageSchema,
+  limit: limitSchema(100, 20),
+  status: z.enum(['all', 'went', 'missed', 'rest']).default('all'),
+  year: z.union([z.literal('all'), z.coerce.number().int().min(1970).max(9999)]).default('all'),
+  month: z.union([z.literal('all'), z.coerce.number().int().min(1).max(12)]).default('all'),
+});
+
+export const notificationsQuerySchema = z.object({
+  page: pageSchema,
+  limit: limitSchema(100, 20),
+  type: z.enum(['all', 'cheer', 'reminder', 'achievement', 'system']).default('all'),
+  unread_only: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
 });
 
+export const exercisesQuerySchema = z.object({
+  search: z.string().trim().min(1).optional(),
+});
+
+export const exerciseHistoryQuerySchema = z.object({
+  unit: z.enum(['kg', 'lb']).default('kg'),
+});
+
+export const exportQuerySchema = z.object({
+  format: z.enum(['json', 'csv', 'ics']).default('json'),
+});
+
+export const templatesQuerySchema = z.object({
+  user_id: z.string().min(1).optional(),
+  guild_id: z.string().min(1).optional(),
+}).refine(query => query.user_id || query.guild_id, { message: 'Give a user_id or a guild_id', path: ['user_id'] });
+
+export const analyticsQuerySchema = z.object({
+  period: z.coerce.number().int().min(1, 'Period must be between 1 and 365 days').max(365, 'Period must be between 1 and 365 days').default(30),
+});
+
+export type UpdateUserInput = z.infer<typeof updateUserSchema>;
+export type CreateCheckInInput = z.infer<typeof createCheckInSchema>;
+export type UpdateCheckInInput = z.infer<typeof updateCheckInSchema>;
+export type ImportCheckInsInput = z.infer<typeof importCheckInsSchema>;
+export type CreateScheduleInput = z.infer<typeof createScheduleSchema>;
+export type FlexibleScheduleInput = z.infer<typeof flexibleScheduleSchema>;
+export type CreateCheerInput = z.infer<typeof createCheerSchema>;
+export type MarkNotificationsReadInput = z.infer<typeof markNotificationsReadSchema>;
+export type DiscordUserInput = z.infer<typeof discordUserSchema>;
+export type DiscordCheckInInput = z.infer<typeof discordCheckInSchema>;
+export type DiscordCheckInBatchInput = z.infer<typeof discordCheckInBatchSchema>;
+export type DiscordRestDayInput = z.infer<typeof discordRestDaySchema>;
+export type DiscordUpdateCheckInInput = z.infer<typeof discordUpdateCheckInSchema>;
+export type DiscordDeleteCheckInInput = z.infer<typeof discordDeleteCheckInSchema>;
+export type DiscordScheduleInput = z.infer<typeof discordScheduleSchema>;
+export type DiscordStreakFreezeInput = z.infer<typeof discordStreakFreezeSchema>;
+export type GrantStreakFreezesInput = z.infer<typeof grantStreakFreezesSchema>;
+export type DiscordCheckInEmbedInput = z.infer<typeof discordCheckInEmbedSchema>;
+export type DiscordCheerEmbedInput = z.infer<typeof discordCheerEmbedSchema>;
+export type DiscordWebhookInput = z.infer<typeof discordWebhookSchema>;
+export type AuthCallbackQuery = z.infer<typeof authCallbackQuerySchema>;
+export type DiscordProfileEmbedQuery = z.infer<typeof discordProfileEmbedQuerySchema>;
+export type StreakLeaderboardQuery = z.infer<typeof streakLeaderboardQuerySchema>;
+export type CheckinLeaderboardQuery = z.infer<typeof checkinLeaderboardQuerySchema>;
+export type GalleryQuery = z.infer<typeof galleryQuerySchema>;
+export type NotificationsQuery = z.infer<typeof notificationsQuerySchema>;
+export type AnalyticsQuery = z.infer<typeof analyticsQuerySchema>;
+export type ExercisesQuery = z.infer<typeof exercisesQuerySchema>;
+export type ExerciseHistoryQuery = z.infer<typeof exerciseHistoryQuerySchema>;
+export type ExerciseEntryInput = z.infer<typeof exerciseEntrySchema>;
+export type CreateTemplateInput = z.infer<typeof createTemplateSchema>;
+export type UpdateTemplateInput = z.infer<typeof updateTemplateSchema>;
+export type TemplateExerciseInput = z.infer<typeof templateExerciseSchema>;
+export type TemplatesQuery = z.infer<typeof templatesQuerySchema>;
+export type ExportQuery = z.infer<typeof exportQuerySchema>;
+
 // Success response helper
 export const createSuccessResponse = (data: any, message?: string) => ({
   success: true,
@@ -0,0 +1,141 @@
+import { ApiRequest, ApiResponse } from '../lib/http';
+import { AuthUser, Caller, authenticateBot, getBearerToken, isAdmin, verifyToken } from '../lib/auth';
+import { RouteHandler, RouteParams } from '../lib/router';
+import { ErrorCode, sendError } from '../lib/errors';
+import { withIdempotency } from '../lib/idempotency';
+
+// 'user' admits any signed-in member, 'self' only the owner of the resource
+export type AccessRule = 'user' | 'self' | 'bot' | 'admin';
+
+export type AuthedRequest = ApiRequest & { caller: Caller };
+export type UserRequest = ApiRequest & { caller: Caller; user: AuthUser };
+
+type OwnerResolver<P extends string> = (
+  params: RouteParams<P>,
+  req: ApiRequest
+) => string | null | undefined | Promise<string | null | undefined>;
+
+export interface AccessPolicy<P extends string> {
+  allow: AccessRule[];
+  // Returns the id of the user who owns the targeted resource; required for 'self'
+  owner?: OwnerResolver<P>;
+  // Sent before access is checked when `owner` returns null because the resource does not exist
+  missing?: ErrorCode;
+}
+
+type ResolvedCaller = { caller: Caller } | { code: ErrorCode; error?: string };
+
+type Authorizer = (req: ApiRequest, res: ApiResponse, params: Record<string, string>) => Promise<boolean>;
+
+// Rules each guarded handler enforces, so the route table can be documented without repeating them, and
+// its access checks on their own, so the router can run them before validating the request
+const guardedHandlers = new WeakMap<Function, { allow: AccessRule[]; authorize: Authorizer }>();
+
+export const getAccessRules = (handler: Function): AccessRule[] | undefined => guardedHandlers.get(handler)?.allow;
+
+// Runs a guarded handler's access checks and records the caller on the request; false once an error was sent.
+// Handlers without a guard pass.
+export const authorizeRoute = (handler: Function, req: ApiRequest, res: ApiResponse, params: Record<string, string>): Promise<boolean> =>
+  guardedHandlers.get(handler)?.authorize(req, res, params) ?? Promise.resolve(true);
+
+const resolveCaller = (req: ApiRequest): ResolvedCaller => {
+  const botAuth = authenticateBot(req);
+  if (botAuth) {
+    return botAuth.valid ? { caller: { type: 'bot' } } : { code: 'BOT_AUTH_FAILED', error: botAuth.reason };
+  }
+
+  const token = getBearerToken(req);
+  if (!token) {
+    return { code: 'AUTH_REQUIRED' };
+  }
+
+  const user = verifyToken(token);
+  if (!user) {
+    return { code: 'INVALID_TOKEN' };
+  }
+
+  return { caller: { type: 'user', user, isAdmin: isAdmin(user) } };
+};
+
+// The caller of a public route that shows more to signed-in members: null without credentials, and an
+// error for credentials that are given but invalid
+export const identifyCaller = (req: ApiRequest): ResolvedCaller | null =>
+  authenticateBot(req) || getBearerToken(req) ? resolveCaller(req) : null;
+
+export const canAccess = (caller: Caller, rules: AccessRule[], ownerId?: string | null): boolean => {
+  if (caller.type === 'bot') {
+    return rules.includes('bot');
+  }
+
+  return (
+    rules.includes('user') ||
+    (rules.includes('admin') && caller.isAdmin) ||
+    (rules.includes('self') && !!ownerId && caller.user.id === ownerId)
+  );
+};
+
+export const requireAccess = <P extends string>(
+  policy: AccessPolicy<P>,
+  handler: (req: AuthedRequest, res: ApiResponse, params: RouteParams<P>) => unknown
+): RouteHandler<P> => {
+  const authorize = async (req: ApiRequest, res: ApiResponse, params: RouteParams<P>): Promise<boolean> => {
+    // Already authorized by the router
+    if ((req as Partial<AuthedRequest>).caller) {
+      return true;
+    }
+
+    const resolved = resolveCaller(req);
+    if ('code' in resolved) {
+      sendError(res, resolved.code, resolved.error);
+      return false;
+    }
+
+    // A bot on a members-only route is told it needs a user token rather than just refused
+    if (resolved.caller.type === 'bot' && !policy.allow.includes('bot')) {
+      sendError(res, 'USER_TOKEN_REQUIRED');
+      return false;
+    }
+
+    const ownerId = policy.owner ? await policy.owner(params, req) : undefined;
+    if (ownerId === null && policy.missing) {
+      sendError(res, policy.missing);
+      return false;
+    }
+    if (!canAccess(resolved.caller, policy.allow, ownerId)) {
+      sendError(res, 'FORBIDDEN');
+      return false;
+    }
+
+    (req as AuthedRequest).caller = resolved.caller;
+    return true;
+  };
+
+  const guarded: RouteHandler<P> = async (req, res, params) => {
+    if (!await authorize(req, res, params)) {
+      return;
+    }
+
+    const authedReq = req as AuthedRequest;
+    // Replays are only served to the caller that made the original request
+    return withIdempotency(authedReq, res, authedReq.caller, response => handler(authedReq, response, params));
+  };
+
+  guardedHandlers.set(guarded, { allow: policy.allow, authorize: authorize as Authorizer });
+  return guarded;
+};
+
+// Shorthand for routes that act on the signed-in member's own data
+export const requireUser = <P extends string>(
+  handler: (req: UserRequest, res: ApiResponse, params: RouteParams<P>) => unknown
+): RouteHandler<P> => {
+  // Bots are turned away with USER_TOKEN_REQUIRED before the handler runs, so the caller is a member
+  return requireAccess<P>({ allow: ['user'] }, (req, res, params) => {
+    const userReq = req as UserRequest;
+    userReq.user = (req.caller as Extract<Caller, { type: 'user' }>).user;
+    return handler(userReq, res, params);
+  });
+};
+
+export const requireBot = <P extends string>(
+  handler: (req: AuthedRequest, res: ApiResponse, params: RouteParams<P>) => unknown
+): RouteHandler<P> => requireAccess<P>({ allow: ['bot'] }, handler);
@@ -1,13 +1,13 @@
-import { VercelRequest, VercelResponse } from '@vercel/node';
+import { ApiRequest, ApiResponse } from '../lib/http';
 
-export const setCorsHeaders = (res: VercelResponse) => {
+export const setCorsHeaders = (res: ApiResponse) => {
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Requested-With');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Requested-With, Idempotency-Key');
   res.setHeader('Access-Control-Max-Age', '86400');
 };
 
-export const handleCors = (req: VercelRequest, res: VercelResponse) => {
+export const handleCors = (req: ApiRequest, res: ApiResponse) => {
   setCorsHeaders(res);
   
   if (req.method === 'OPTIONS') {
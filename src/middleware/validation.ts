@@ -1,60 +1,56 @@
-import { VercelRequest, VercelResponse } from '@vercel/node';
+import { ApiRequest, ApiResponse } from '../lib/http';
+import { ErrorCode, isErrorCode, sendError } from '../lib/errors';
 import { z } from 'zod';
 
+// Refinements may tag an issue with a catalogue code (e.g. SCHEDULE_INVALID_PATTERN)
+const issueCode = (issue: z.ZodIssue): ErrorCode | undefined => {
+  const code = issue.code === z.ZodIssueCode.custom ? issue.params?.code : undefined;
+  return isErrorCode(code) ? code : undefined;
+};
+
+const sendValidationError = (res: ApiResponse, message: string, error: unknown) => {
+  if (!(error instanceof z.ZodError)) {
+    sendError(res, 'INTERNAL_ERROR');
+    return;
+  }
+
+  const details = error.errors.map(err => ({
+    field: err.path.join('.'),
+    message: err.message,
+    ...(issueCode(err) && { code: issueCode(err) }),
+  }));
+  // A tagged issue is specific enough to lead the response; otherwise the generic code applies
+  const tagged = error.errors.find(err => issueCode(err));
+  if (tagged) {
+    sendError(res, issueCode(tagged)!, tagged.message, { details });
+  } else {
+    sendError(res, 'VALIDATION_FAILED', message, { details });
+  }
+};
+
 export const validateRequest = <T>(
   schema: z.ZodSchema<T>,
-  req: VercelRequest,
-  res: VercelResponse
+  req: ApiRequest,
+  res: ApiResponse
 ): T | null => {
   try {
-    return schema.parse(req.body);
+    // Bodiless requests validate as an empty object so optional-only schemas pass
+    return schema.parse(req.body ?? {});
   } catch (error) {
-    if (error instanceof z.ZodError) {
-      res.status(400).json({
-        error: 'Validation failed',
-        details: error.errors.map(err => ({
-          field: err.path.join('.'),
-          message: err.message,
-        })),
-        statusCode: 400,
-        timestamp: new Date().toISOString(),
-      });
-    } else {
-      res.status(500).json({
-        error: 'Internal server error',
-        statusCode: 500,
-        timestamp: new Date().toISOString(),
-      });
-    }
+    sendValidationError(res, 'Validation failed', error);
     return null;
   }
 };
 
 export const validateQuery = <T>(
   schema: z.ZodSchema<T>,
-  req: VercelRequest,
-  res: VercelResponse
+  req: ApiRequest,
+  res: ApiResponse
 ): T | null => {
   try {
     return schema.parse(req.query);
   } catch (error) {
-    if (error instanceof z.ZodError) {
-      res.status(400).json({
-        error: 'Query validation failed',
-        details: error.errors.map(err => ({
-          field: err.path.join('.'),
-          message: err.message,
-        })),
-        statusCode: 400,
-        timestamp: new Date().toISOString(),
-      });
-    } else {
-      res.status(500).json({
-        error: 'Internal server error',
-        statusCode: 500,
-        timestamp: new Date().toISOString(),
-      });
-    }
+    sendValidationError(res, 'Query validation failed', error);
     return null;
   }
 };
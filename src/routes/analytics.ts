@@ -0,0 +1,100 @@
+import { ApiRequest, ApiResponse } from '../lib/http';
+import { prisma } from '../lib/prisma';
+import { createSuccessResponse, AnalyticsQuery } from '../lib/validation';
+import { sendError } from '../lib/errors';
+import { RouteParams } from '../lib/router';
+import { calculateStreak } from '../lib/streak';
+
+// Analytics handler
+export async function handleAnalyticsGet(req: ApiRequest, res: ApiResponse, { userId }: RouteParams<'/analytics/:userId'>) {
+  try {
+    const { period: days } = req.query as AnalyticsQuery;
+
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - days);
+
+    // Get user info
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        username: true,
+        joined_at: true,
+      },
+    });
+
+    if (!user) {
+      return sendError(res, 'USER_NOT_FOUND');
+    }
+
+    const streak = await calculateStreak(userId);
+
+    // Get check-ins for the period
+    const checkIns = await prisma.checkIn.findMany({
+      where: {
+        user_id: userId,
+        date: { gte: startDate },
+      },
+      select: {
+        id: true,
+        date: true,
+        status: true,
+        photo_url: true,
+        session_count: true,
+        duration_minutes: true,
+        calories_burned: true,
+        created_at: true,
+      },
+      orderBy: { date: 'asc' },
+    });
+
+    // Calculate analytics
+    const totalCheckIns = checkIns.length;
+    const wentCount = checkIns.filter(c => c.status === 'went').length;
+    const missedCount = checkIns.filter(c => c.status === 'missed').length;
+    const photoCount = checkIns.filter(c => c.photo_url).length;
+
+    // Check-ins count days; their duration and calories already sum the day's sessions
+    const workouts = checkIns.filter(c => c.status === 'went');
+    const sessionCount = workouts.reduce((sum, c) => sum + c.session_count, 0);
+    const totalDuration = workouts.reduce((sum, c) => sum + (c.duration_minutes ?? 0), 0);
+    const totalCalories = workouts.reduce((sum, c) => sum + (c.calories_burned ?? 0), 0);
+
+    // Calculate attendance rate
+    const attendanceRate = totalCheckIns > 0 ? (wentCount / totalCheckIns) * 100 : 0;
+
+    const analytics = {
+      user: {
+        id: user.id,
+        username: user.username,
+        current_streak: streak.current_streak,
+        longest_streak: streak.longest_streak,
+        total_checkins: streak.total_checkins,
+        joined_at: user.joined_at,
+      },
+      period: {
+        days,
+        start_date: startDate,
+        end_date: new Date(),
+      },
+      overview: {
+        total_checkins: totalCheckIns,
+        went_count: wentCount,
+        missed_count: missedCount,
+        photo_count: photoCount,
+        attendance_rate: Math.round(attendanceRate * 100) / 100,
+      },
+      sessions: {
+        total_sessions: sessionCount,
+        sessions_per_workout_day: wentCount > 0 ? Math.round((sessionCount / wentCount) * 100) / 100 : 0,
+        total_duration_minutes: totalDuration,
+        total_calories_burned: totalCalories,
+      },
+    };
+
+    return res.json(createSuccessResponse(analytics, 'Analytics data generated'));
+  } catch (error) {
+    console.error('Analytics error:', error);
+    return sendError(res, 'INTERNAL_ERROR', 'Failed to fetch analytics');
+  }
+}
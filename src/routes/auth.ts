@@ -0,0 +1,137 @@
+import { ApiRequest, ApiResponse } from '../lib/http';
+import { UserRequest } from '../middleware/auth';
+import { prisma } from '../lib/prisma';
+import { generateToken } from '../lib/auth';
+import { createSuccessResponse, AuthCallbackQuery } from '../lib/validation';
+import { sendError } from '../lib/errors';
+
+// Authentication handlers
+export async function handleDiscordAuth(req: ApiRequest, res: ApiResponse) {
+  const discordAuthUrl = `https://discord.com/api/oauth2/authorize?client_id=${process.env.DISCORD_CLIENT_ID}&redirect_uri=${process.env.DISCORD_REDIRECT_URI}&response_type=code&scope=identify`;
+  return res.redirect(discordAuthUrl);
+}
+
+export async function handleAuthCallback(req: ApiRequest, res: ApiResponse) {
+  const { code } = req.query as AuthCallbackQuery;
+
+  try {
+    // Exchange code for access token
+    const tokenResponse = await fetch('https://discord.com/api/oauth2/token', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        client_id: process.env.DISCORD_CLIENT_ID!,
+        client_secret: process.env.DISCORD_CLIENT_SECRET!,
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: process.env.DISCORD_REDIRECT_URI!,
+      }),
+    });
+
+    if (!tokenResponse.ok) {
+      return sendError(res, 'DISCORD_OAUTH_FAILED', 'Failed to exchange code for token');
+    }
+
+    const tokenData = await tokenResponse.json() as any;
+    const { access_token } = tokenData;
+
+    // Get user info from Discord
+    const userResponse = await fetch('https://discord.com/api/users/@me', {
+      headers: {
+        Authorization: `Bearer ${access_token}`,
+      },
+    });
+
+    if (!userResponse.ok) {
+      return sendError(res, 'DISCORD_OAUTH_FAILED', 'Failed to fetch user info from Discord');
+    }
+
+    const discordUser = await userResponse.json() as any;
+
+    // Find or create user in database
+    let user = await prisma.user.findUnique({
+      where: { discord_id: discordUser.id },
+    });
+
+    if (!user) {
+      user = await prisma.user.create({
+        data: {
+          discord_id: discordUser.id,
+          username: discordUser.username,
+          avatar_url: discordUser.avatar ? 
+            `https://cdn.discordapp.com/avatars/${discordUser.id}/${discordUser.avatar}.png` : 
+            null,
+          bio: null,
+          timezone: 'UTC',
+          is_active: true,
+        },
+      });
+    } else {
+      // Update user info
+      user = await prisma.user.update({
+        where: { id: user.id },
+        data: {
+          username: discordUser.username,
+          avatar_url: discordUser.avatar ? 
+            `https://cdn.discordapp.com/avatars/${discordUser.id}/${discordUser.avatar}.png` : 
+            null,
+        },
+      });
+    }
+
+    // Generate JWT token
+    const token = generateToken(user);
+
+    // Redirect to frontend with token
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+    return res.redirect(`${frontendUrl}/auth/callback?token=${token}`);
+
+  } catch (error) {
+    console.error('Auth callback error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
+
+export async function handleAuthMe(req: UserRequest, res: ApiResponse) {
+  try {
+    // Get user from database
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id },
+      select: {
+        id: true,
+        discord_id: true,
+        username: true,
+        avatar_url: true,
+        bio: true,
+        timezone: true,
+        is_active: true,
+        created_at: true,
+        updated_at: true,
+      },
+    });
+
+    if (!user) {
+      return sendError(res, 'USER_NOT_FOUND');
+    }
+
+    return res.json(createSuccessResponse({
+      user: {
+        id: user.id,
+        discord_id: user.discord_id,
+        username: user.username,
+        avatar_url: user.avatar_url,
+        bio: user.bio,
+        timezone: user.timezone,
+        is_active: user.is_active,
+        created_at: user.created_at,
+        updated_at: user.updated_at,
+      },
+    }));
+
+  } catch (error) {
+    console.error('Auth me error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
@@ -0,0 +1,250 @@
+import { ApiRequest, ApiResponse } from '../lib/http';
+import { AuthedRequest, UserRequest } from '../middleware/auth';
+import { prisma } from '../lib/prisma';
+import { createSuccessResponse, CreateCheckInInput, ImportCheckInsInput, UpdateCheckInInput } from '../lib/validation';
+import { sendError } from '../lib/errors';
+import { RouteParams } from '../lib/router';
+import { deleteCheckIn, logCheckIn, logImportedWorkouts, resolveCheckInDay, updateCheckIn } from '../lib/checkins';
+import { planImport } from '../lib/imports';
+import { getCheckInExercises } from '../lib/exercises';
+
+// Check-in handlers
+export async function handleCheckinCreate(req: UserRequest, res: ApiResponse) {
+  try {
+    const { workout_type, notes, photo_url, duration_minutes, calories_burned, date, exercises }: CreateCheckInInput = req.body;
+
+    // The calendar day it is for, in the member's timezone; past days only within the late-logging window
+    const checkinDay = await resolveCheckInDay(req.user.id, date);
+    if ('code' in checkinDay) {
+      return sendError(res, checkinDay.code, checkinDay.error);
+    }
+
+    // Create check-in and update the streak together
+    const logged = await logCheckIn(req.user.id, checkinDay, {
+      status: 'went',
+      workout_type,
+      notes: notes || null,
+      photo_url: photo_url || null,
+      duration_minutes: duration_minutes || null,
+      calories_burned: calories_burned || null,
+    }, exercises);
+    if ('code' in logged) {
+      return sendError(res, logged.code, logged.error);
+    }
+    const { checkin, session, streak, records } = logged;
+
+    return res.status(201).json(createSuccessResponse({
+      checkin: {
+        id: checkin.id,
+        user_id: checkin.user_id,
+        workout_type: checkin.workout_type,
+        notes: checkin.notes,
+        photo_url: checkin.photo_url,
+        duration_minutes: checkin.duration_minutes,
+        calories_burned: checkin.calories_burned,
+        session_count: checkin.session_count,
+        date: checkin.date,
+        created_at: checkin.created_at,
+      },
+      session: session,
+      exercises: await getCheckInExercises(checkin.id),
+      streak: streak,
+      records: records,
+    }));
+
+  } catch (error) {
+    console.error('Check-in create error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
+
+// Imports workouts from activity files; a dry run only shows what would be logged
+export async function handleCheckinImport(req: UserRequest, res: ApiResponse) {
+  try {
+    const { files, dry_run }: ImportCheckInsInput = req.body;
+
+    const plan = await planImport(req.user.id, files);
+    if ('code' in plan) {
+      return sendError(res, plan.code, plan.error);
+    }
+    const { workouts, rejected } = plan;
+
+    const preview = {
+      dry_run,
+      summary: {
+        workouts: workouts.length,
+        new_days: workouts.filter(workout => workout.status === 'new').length,
+        sessions: workouts.filter(workout => workout.status === 'session').length,
+        duplicates: workouts.filter(workout => workout.status === 'duplicate').length,
+        rejected: rejected.length,
+      },
+      workouts: workouts.map(({ source, day, status, workout_type, duration_minutes, calories_burned, notes }) =>
+        ({ source, day, status, workout_type, duration_minutes, calories_burned, notes })),
+      rejected,
+    };
+
+    if (dry_run) {
+      return res.json(createSuccessResponse(preview, 'Dry run: nothing was logged'));
+    }
+
+    const imported = await logImportedWorkouts(req.user.id, workouts);
+    if ('code' in imported) {
+      return sendError(res, imported.code);
+    }
+
+    return res.status(201).json(createSuccessResponse({
+      ...preview,
+      checkins: imported.checkins.map(checkin => ({
+        id: checkin.id,
+        day: checkin.day,
+        workout_type: checkin.workout_type,
+        duration_minutes: checkin.duration_minutes,
+        calories_burned: checkin.calories_burned,
+        session_count: checkin.session_count,
+      })),
+      streak: imported.streak,
+    }, `Imported ${imported.checkins.length} days`));
+
+  } catch (error) {
+    console.error('Check-in import error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
+
+// Corrects a check-in; access is checked against its owner before this runs
+export async function handleCheckinUpdate(req: AuthedRequest, res: ApiResponse, { id }: RouteParams<'/checkins/:id'>) {
+  try {
+    const existing = await prisma.checkIn.findUnique({ where: { id } });
+
+    if (!existing) {
+      return sendError(res, 'CHECKIN_NOT_FOUND');
+    }
+
+    const updated = await updateCheckIn(existing, req.body as UpdateCheckInInput, req.caller);
+    if ('code' in updated) {
+      return sendError(res, updated.code);
+    }
+    const { checkin, streak } = updated;
+
+    return res.json(createSuccessResponse({
+      checkin: {
+        id: checkin.id,
+        user_id: checkin.user_id,
+        status: checkin.status,
+        workout_type: checkin.workout_type,
+        notes: checkin.notes,
+        photo_url: checkin.photo_url,
+        duration_minutes: checkin.duration_minutes,
+        calories_burned: checkin.calories_burned,
+        date: checkin.date,
+        session_count: checkin.session_count,
+        created_at: checkin.created_at,
+      },
+      streak: streak,
+    }, 'Check-in updated'));
+  } catch (error) {
+    console.error('Check-in update error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
+
+export async function handleCheckinDelete(req: AuthedRequest, res: ApiResponse, { id }: RouteParams<'/checkins/:id'>) {
+  try {
+    const existing = await prisma.checkIn.findUnique({ where: { id } });
+
+    if (!existing) {
+      return sendError(res, 'CHECKIN_NOT_FOUND');
+    }
+
+    const streak = await deleteCheckIn(existing, req.caller);
+
+    return res.json(createSuccessResponse({ checkin_id: existing.id, streak: streak }, 'Check-in deleted'));
+  } catch (error) {
+    console.error('Check-in delete error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
+
+export async function handleCheckinList(req: ApiRequest, res: ApiResponse, { userId }: RouteParams<'/checkins/:userId'>) {
+  try {
+    const checkIns = await prisma.checkIn.findMany({
+      where: { user_id: userId },
+      select: {
+        id: true,
+        date: true,
+        status: true,
+        photo_url: true,
+        discord_message_id: true,
+        session_count: true,
+        created_at: true,
+        sessions: {
+          select: {
+            id: true,
+            workout_type: true,
+            photo_url: true,
+            duration_minutes: true,
+            calories_burned: true,
+            created_at: true,
+          },
+          orderBy: { created_at: 'asc' },
+        },
+      },
+      orderBy: { date: 'desc' },
+    });
+
+    return res.json(createSuccessResponse(checkIns));
+  } catch (error) {
+    console.error('Check-in list error:', error);
+    return sendError(res, 'INTERNAL_ERROR', 'Failed to fetch check-ins');
+  }
+}
+
+export async function handleCheckinRecent(req: ApiRequest, res: ApiResponse, { userId }: RouteParams<'/checkins/:userId/recent'>) {
+  try {
+    const recentCheckIns = await prisma.checkIn.findMany({
+      where: { user_id: userId },
+      select: {
+        id: true,
+        date: true,
+        status: true,
+        photo_url: true,
+        discord_message_id: true,
+        session_count: true,
+        created_at: true,
+      },
+      orderBy: { date: 'desc' },
+      take: 5,
+    });
+
+    return res.json(createSuccessResponse(recentCheckIns));
+  } catch (error) {
+    console.error('Recent check-ins error:', error);
+    return sendError(res, 'INTERNAL_ERROR', 'Failed to fetch recent check-ins');
+  }
+}
+
+export async function handleCheckinPhotos(req: ApiRequest, res: ApiResponse, { userId }: RouteParams<'/checkins/:userId/photos'>) {
+  try {
+    const checkInsWithPhotos = await prisma.checkIn.findMany({
+      where: {
+        user_id: userId,
+        photo_url: { not: null },
+      },
+      select: {
+        id: true,
+        date: true,
+        status: true,
+        photo_url: true,
+        discord_message_id: true,
+        session_count: true,
+        created_at: true,
+      },
+      orderBy: { date: 'desc' },
+    });
+
+    return res.json(createSuccessResponse(checkInsWithPhotos));
+  } catch (error) {
+    console.error('Check-ins with photos error:', error);
+    return sendError(res, 'INTERNAL_ERROR', 'Failed to fetch check-ins with photos');
+  }
+}
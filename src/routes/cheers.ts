@@ -0,0 +1,101 @@
+import { ApiRequest, ApiResponse } from '../lib/http';
+import { UserRequest } from '../middleware/auth';
+import { prisma } from '../lib/prisma';
+import { createSuccessResponse, CreateCheerInput } from '../lib/validation';
+import { sendError } from '../lib/errors';
+import { RouteParams } from '../lib/router';
+
+// Cheer handlers
+export async function handleCheerSend(req: UserRequest, res: ApiResponse) {
+  try {
+    const { to_user_id, message, type }: CreateCheerInput = req.body;
+
+    // Check if recipient exists
+    const recipient = await prisma.user.findUnique({
+      where: { id: to_user_id },
+    });
+
+    if (!recipient) {
+      return sendError(res, 'RECIPIENT_NOT_FOUND');
+    }
+
+    // Prevent self-cheering
+    if (req.user.id === to_user_id) {
+      return sendError(res, 'CANNOT_CHEER_SELF');
+    }
+
+    // Create cheer
+    const cheer = await prisma.cheer.create({
+      data: {
+        from_user_id: req.user.id,
+        to_user_id: to_user_id,
+        message,
+        type: type || 'general',
+      },
+    });
+
+    // Create notification for recipient
+    await prisma.notification.create({
+      data: {
+        user_id: to_user_id,
+        from_user_id: req.user.id,
+        type: 'cheer',
+        title: 'New Cheer! 🎉',
+        message: `You received a cheer: "${message}"`,
+        data: {
+          cheer_id: cheer.id,
+          from_username: req.user.username,
+        },
+      },
+    });
+
+    // Get sender info for response
+    const sender = await prisma.user.findUnique({
+      where: { id: req.user.id },
+      select: {
+        id: true,
+        username: true,
+        avatar_url: true,
+      },
+    });
+
+    return res.status(201).json(createSuccessResponse({
+      cheer: {
+        id: cheer.id,
+        from_user_id: cheer.from_user_id,
+        to_user_id: cheer.to_user_id,
+        message: cheer.message,
+        type: cheer.type,
+        created_at: cheer.created_at,
+        sender: sender,
+      },
+    }));
+
+  } catch (error) {
+    console.error('Cheer send error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
+
+export async function handleCheerList(req: ApiRequest, res: ApiResponse, { userId }: RouteParams<'/cheers/:userId'>) {
+  try {
+    const cheers = await prisma.cheer.findMany({
+      where: { to_user_id: userId },
+      include: {
+        from_user: {
+          select: {
+            id: true,
+            username: true,
+            avatar_url: true,
+          },
+        },
+      },
+      orderBy: { created_at: 'desc' },
+    });
+
+    return res.json(createSuccessResponse(cheers));
+  } catch (error) {
+    console.error('Cheer list error:', error);
+    return sendError(res, 'INTERNAL_ERROR', 'Failed to fetch cheers');
+  }
+}
@@ -0,0 +1,1476 @@
+import { CheckIn, Prisma, WorkoutSession } from '@prisma/client';
+import { ApiRequest, ApiResponse } from '../lib/http';
+import { AuthedRequest } from '../middleware/auth';
+import { prisma } from '../lib/prisma';
+import { generateToken } from '../lib/auth';
+import {
+  createSuccessResponse,
+  DiscordCheckInBatchInput,
+  DiscordCheckInEmbedInput,
+  DiscordCheckInInput,
+  DiscordDeleteCheckInInput,
+  DiscordCheerEmbedInput,
+  DiscordProfileEmbedQuery,
+  DiscordRestDayInput,
+  DiscordScheduleInput,
+  DiscordStreakFreezeInput,
+  DiscordUpdateCheckInInput,
+  DiscordUserInput,
+  DiscordWebhookInput,
+} from '../lib/validation';
+import { ERROR_CODES, ErrorCode, sendError } from '../lib/errors';
+import { RouteParams } from '../lib/router';
+import { calculateStreak, refreshStreak, refreshStreakFrom, StreakData, useStreakFreeze } from '../lib/streak';
+import { describeScheduledDay, getScheduledDayType, recordScheduleChange } from '../lib/schedule';
+import { checkRotationTemplates, prefillFromTemplate, setUserGuild, toRotationTemplates, toTemplateResponse } from '../lib/templates';
+import { CheckInDay, deleteCheckIn, deleteSession, logCheckIn, logQueuedCheckIn, resolveCheckInDay, SessionChanges, updateCheckIn, updateSession } from '../lib/checkins';
+import { getCheckInExercises } from '../lib/exercises';
+import { getLocalDate } from '../lib/timezone';
+import { getUserTimeZone, setUserTimeZone } from '../lib/users';
+
+// A workout on a day whose rotation label points to a template takes its workout type. Its planned sets are
+// only a suggestion for the bot: sets are stored as performed only when the bot sends them back.
+const planDiscordCheckIn = async (
+  userId: string,
+  checkinDay: CheckInDay,
+  status: DiscordCheckInInput['status'],
+  exercises: DiscordCheckInInput['exercises']
+) => {
+  const scheduled = !status || status === 'went' ? await getScheduledDayType(userId, checkinDay.date) : null;
+  const prefill = scheduled?.template ? prefillFromTemplate(scheduled.template) : null;
+
+  return { scheduled, prefill, exercises: exercises ?? [], suggested: exercises === undefined ? prefill?.exercises ?? [] : [] };
+};
+
+// Discord handlers
+export async function handleDiscordCheckin(req: ApiRequest, res: ApiResponse) {
+  try {
+    const { discord_id, username, avatar_url, guild_id, status, photo_url, date, workout_type, notes, duration_minutes, calories_burned, discord_message_id, exercises }: DiscordCheckInInput = req.body;
+
+    // Find user by Discord ID
+    const user = await prisma.user.findUnique({
+      where: { discord_id: discord_id },
+    });
+
+    if (!user) {
+      return sendError(res, 'USER_NOT_REGISTERED');
+    }
+    await setUserGuild(user.id, guild_id);
+
+    // The calendar day it is for, in the member's timezone; past days only within the late-logging window
+    const checkinDay = await resolveCheckInDay(user.id, date);
+    if ('code' in checkinDay) {
+      return sendError(res, checkinDay.code, checkinDay.error);
+    }
+
+    const { scheduled, prefill, exercises: plannedExercises, suggested } = await planDiscordCheckIn(user.id, checkinDay, status, exercises);
+
+    // Create check-in and update the streak together
+    const logged = await logCheckIn(user.id, checkinDay, {
+      status: status || 'went',
+      workout_type: workout_type || prefill?.workout_type || null,
+      notes: notes || null,
+      photo_url: photo_url || null,
+      duration_minutes: duration_minutes || null,
+      calories_burned: calories_burned || null,
+      discord_message_id: discord_message_id || null,
+    }, plannedExercises);
+    if ('code' in logged) {
+      return sendError(res, logged.code, logged.error);
+    }
+    const { checkin, session, streak, records, exercises: loggedExercises } = logged;
+
+    // Create Discord embed based on status
+    const isRestDay = status === 'rest';
+    const isExtraSession = checkin.session_count > 1;
+    const embed: any = {
+      title: isRestDay ? '😴 Rest Day Logged!' : isExtraSession ? `🏋️ Session ${checkin.session_count} Logged!` : '🏋️ Check-in Logged!',
+      description: isRestDay 
+        ? `**${username}** has logged a rest day - recovery is important! 💪`
+        : `**${username}** has successfully logged their workout!`,
+      color: isRestDay ? 0xffa500 : 0x00ff00, // Orange for rest, green for workout
+      thumbnail: {
+        url: avatar_url || user.avatar_url || 'https://cdn.discordapp.com/embed/avatars/0.png',
+      },
+      fields: [
+        {
+          name: isRestDay ? '😴 Rest Day' : '💪 Workout Type',
+          value: isRestDay ? 'Recovery & Rest' : (workout_type || prefill?.workout_type || 'General Exercise'),
+          inline: true,
+        },
+        {
+          name: '🔥 Current Streak',
+          value: `${streak.current_streak} ${streak.unit}`,
+          inline: true,
+        },
+        {
+          name: '📊 Total Check-ins',
+          value: `${streak.total_checkins}`,
+          inline: true,
+        },
+      ],
+      footer: {
+        text: isRestDay ? 'WaddleFit - Rest is part of the journey! 💤' : 'WaddleFit - Keep up the great work!',
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    if (checkinDay.backdated) {
+      embed.fields.push({
+        name: '📅 Logged For',
+        value: checkinDay.day,
+        inline: true,
+      });
+    }
+
+    if (scheduled?.template) {
+      embed.fields.push({
+        name: '📋 Template',
+        value: scheduled.label ? `${scheduled.template.name} (${scheduled.label} day)` : scheduled.template.name,
+        inline: true,
+      });
+    }
+
+    if (isExtraSession) {
+      embed.fields.push({
+        name: '🔁 Sessions That Day',
+        value: `${checkin.session_count}${checkin.duration_minutes ? ` · ${checkin.duration_minutes} minutes in total` : ''}`,
+        inline: true,
+      });
+    }
+
+    // Add optional fields if provided
+    if (notes) {
+      embed.fields.push({
+        name: '📝 Notes',
+        value: notes,
+        inline: false,
+      });
+    }
+
+    if (duration_minutes) {
+      embed.fields.push({
+        name: '⏱️ Duration',
+        value: `${duration_minutes} minutes`,
+        inline: true,
+      });
+    }
+
+    if (calories_burned) {
+      embed.fields.push({
+        name: '🔥 Calories Burned',
+        value: `${calories_burned}`,
+        inline: true,
+      });
+    }
+
+    if (loggedExercises.length > 0) {
+      embed.fields.push({
+        name: '🏋️ Exercises',
+        value: loggedExercises
+          .map(({ exercise, sets }) => `**${exercise.name}**: ${sets.map(set => set.weight ? `${set.reps}×${set.weight}${set.unit ?? 'kg'}` : `${set.reps}`).join(', ')}`)
+          .join('\n'),
+        inline: false,
+      });
+    }
+
+    // Add image if available
+    if (photo_url) {
+      embed.image = {
+        url: photo_url,
+      };
+    }
+
+    return res.json(createSuccessResponse({
+      embed: embed,
+      checkin: {
+        id: checkin.id,
+        user_id: checkin.user_id,
+        status: checkin.status,
+        workout_type: checkin.workout_type,
+        notes: checkin.notes,
+        photo_url: checkin.photo_url,
+        duration_minutes: checkin.duration_minutes,
+        calories_burned: checkin.calories_burned,
+        session_count: checkin.session_count,
+        date: checkin.date,
+        created_at: checkin.created_at,
+      },
+      session: session,
+      exercises: await getCheckInExercises(checkin.id),
+      template: scheduled?.template ? toTemplateResponse(scheduled.template) : null,
+      // The template's planned sets, to offer the member; send the ones done as `exercises` to log them
+      suggested_exercises: suggested,
+      streak: streak,
+      // One embed per personal best, to post after the check-in embed
+      records: records,
+    }));
+
+  } catch (error) {
+    console.error('Discord check-in error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
+
+// Finds the check-in a member logged from a Discord message
+const findMessageCheckIn = async (discordId: string, discordMessageId: string): Promise<{ checkin: CheckIn } | { code: ErrorCode }> => {
+  const user = await prisma.user.findUnique({ where: { discord_id: discordId }, select: { id: true } });
+  if (!user) {
+    return { code: 'USER_NOT_REGISTERED' };
+  }
+
+  // The message may have logged a later session of that day rather than the check-in itself
+  const checkin = await prisma.checkIn.findFirst({
+    where: {
+      user_id: user.id,
+      OR: [{ discord_message_id: discordMessageId }, { sessions: { some: { discord_message_id: discordMessageId } } }],
+    },
+  });
+  return checkin ? { checkin } : { code: 'CHECKIN_NOT_FOUND' };
+};
+
+// What a correction from a Discord message acts on: the whole check-in, or on a day with several sessions
+// the session that message logged. A message that logged none of them can't stand for the whole day.
+const findMessageTarget = async (
+  discordId: string,
+  discordMessageId: string
+): Promise<{ checkin: CheckIn; session: WorkoutSession | null } | { code: ErrorCode; error?: string }> => {
+  const found = await findMessageCheckIn(discordId, discordMessageId);
+  if ('code' in found) {
+    return found;
+  }
+
+  const sessions = await prisma.workoutSession.findMany({ where: { checkin_id: found.checkin.id }, orderBy: { created_at: 'asc' } });
+  if (sessions.length <= 1) {
+    return { checkin: found.checkin, session: null };
+  }
+  const session = sessions.find(candidate => candidate.discord_message_id === discordMessageId);
+  return session
+    ? { checkin: found.checkin, session }
+    : { code: 'CHECKIN_MULTIPLE_SESSIONS', error: 'This message logged none of the day\'s sessions; correct the day with PATCH /api/checkins/:id' };
+};
+
+type QueuedCheckIn = DiscordCheckInBatchInput['checkins'][number];
+
+const toBatchCheckIn = (checkin: CheckIn) => ({
+  id: checkin.id,
+  user_id: checkin.user_id,
+  status: checkin.status,
+  workout_type: checkin.workout_type,
+  day: checkin.day,
+  session_count: checkin.session_count,
+  date: checkin.date,
+});
+
+const rejectQueued = (clientId: string, code: ErrorCode, error?: string) =>
+  ({ client_id: clientId, result: 'rejected' as const, code, error: error ?? ERROR_CODES[code].message });
+
+// Logs one queued check-in as /discord/checkin would, noting the member and day so the streak can be refreshed
+const syncQueuedCheckIn = async (queued: QueuedCheckIn, loggedDays: Map<string, { discord_id: string; days: string[] }>) => {
+  const { client_id, discord_id, status, photo_url, date, workout_type, notes, duration_minutes, calories_burned, discord_message_id, exercises } = queued;
+
+  // A resent check-in is a duplicate even once its day is past the late-logging window
+  const found = await findMessageCheckIn(discord_id, discord_message_id);
+  if ('checkin' in found) {
+    return { client_id, result: 'duplicate' as const, checkin: toBatchCheckIn(found.checkin) };
+  }
+  if (found.code === 'USER_NOT_REGISTERED') {
+    return rejectQueued(client_id, found.code);
+  }
+
+  const user = await prisma.user.findUniqueOrThrow({ where: { discord_id }, select: { id: true } });
+  const checkinDay = await resolveCheckInDay(user.id, date, true);
+  if ('code' in checkinDay) {
+    return rejectQueued(client_id, checkinDay.code, checkinDay.error);
+  }
+
+  const planned = await planDiscordCheckIn(user.id, checkinDay, status, exercises);
+
+  const logged = await logQueuedCheckIn(user.id, checkinDay, {
+    status: status || 'went',
+    workout_type: workout_type || planned.prefill?.workout_type || null,
+    notes: notes || null,
+    photo_url: photo_url || null,
+    duration_minutes: duration_minutes || null,
+    calories_burned: calories_burned || null,
+    discord_message_id,
+  }, planned.exercises);
+  if ('code' in logged) {
+    return rejectQueued(client_id, logged.code, logged.error);
+  }
+  if ('duplicate' in logged) {
+    return { client_id, result: 'duplicate' as const, checkin: toBatchCheckIn(logged.duplicate) };
+  }
+
+  const member = loggedDays.get(user.id) ?? { discord_id, days: [] };
+  loggedDays.set(user.id, { ...member, days: [...member.days, checkinDay.day] });
+
+  return {
+    client_id,
+    result: 'created' as const,
+    checkin: toBatchCheckIn(logged.checkin),
+    session_id: logged.session?.id ?? null,
+    template: planned.scheduled?.template ? toTemplateResponse(planned.scheduled.template) : null,
+    // One embed per personal best, as /discord/checkin returns them
+    records: logged.records,
+  };
+};
+
+// Replays check-ins the bot queued while the API was unreachable, in the order given. Each is created, a
+// duplicate of one already logged from its Discord message, or rejected with the code /discord/checkin would
+// have answered; a failure of one does not stop the rest. Streaks are recomputed once per member at the end.
+export async function handleDiscordCheckinBatch(req: ApiRequest, res: ApiResponse) {
+  try {
+    const { checkins }: DiscordCheckInBatchInput = req.body;
+    const loggedDays = new Map<string, { discord_id: string; days: string[] }>();
+
+    const results = [];
+    for (const queued of checkins) {
+      try {
+        results.push(await syncQueuedCheckIn(queued, loggedDays));
+      } catch (error) {
+        console.error('Discord check-in batch item error:', error);
+        results.push(rejectQueued(queued.client_id, 'INTERNAL_ERROR'));
+      }
+    }
+
+    // The check-ins are in by now, so a member whose refresh fails is reported rather than failing the batch
+    const streaks = [];
+    for (const [userId, { discord_id, days }] of loggedDays) {
+      try {
+        streaks.push({ discord_id, user_id: userId, streak: await refreshStreakFrom(userId, days) });
+      } catch (error) {
+        console.error('Discord check-in batch streak refresh error:', error);
+        streaks.push({ discord_id, user_id: userId, streak: null, code: 'INTERNAL_ERROR' as const, error: 'The streak could not be recomputed; it catches up with the next check-in' });
+      }
+    }
+
+    return res.json(createSuccessResponse({
+      summary: {
+        created: results.filter(result => result.result === 'created').length,
+        duplicate: results.filter(result => result.result === 'duplicate').length,
+        rejected: results.filter(result => result.result === 'rejected').length,
+      },
+      results: results,
+      streaks: streaks,
+    }));
+
+  } catch (error) {
+    console.error('Discord check-in batch error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
+
+const streakFields = (streak: StreakData) => [
+  {
+    name: '🔥 Current Streak',
+    value: `${streak.current_streak} ${streak.unit}`,
+    inline: true,
+  },
+  {
+    name: '📊 Total Check-ins',
+    value: `${streak.total_checkins}`,
+    inline: true,
+  },
+];
+
+// Correct a check-in the bot logged, found by its message. On a day with several sessions the message's
+// session takes the corrections, and only a correction of the status alone is applied to the whole day.
+export async function handleDiscordCheckinUpdate(req: AuthedRequest, res: ApiResponse) {
+  try {
+    const { discord_id, discord_message_id, status, ...sessionChanges }: DiscordUpdateCheckInInput = req.body;
+
+    const target = await findMessageTarget(discord_id, discord_message_id);
+    if ('code' in target) {
+      return sendError(res, target.code, target.error);
+    }
+
+    const changesSession = Object.values(sessionChanges).some(value => value !== undefined);
+    if (target.session && status !== undefined && changesSession) {
+      return sendError(res, 'CHECKIN_MULTIPLE_SESSIONS', 'Correct the day\'s status and its session separately');
+    }
+
+    const updated = target.session && changesSession
+      ? await updateSession(target.checkin, target.session, sessionChanges as SessionChanges, req.caller)
+      : await updateCheckIn(target.checkin, { status, ...sessionChanges }, req.caller);
+    if ('code' in updated) {
+      return sendError(res, updated.code);
+    }
+    const { checkin, streak } = updated;
+
+    const embed = {
+      title: '✏️ Check-in Updated',
+      description: `The check-in from ${checkin.day ?? getLocalDate(checkin.date, await getUserTimeZone(checkin.user_id))} has been corrected.`,
+      color: 0x3498db,
+      fields: [
+        {
+          name: checkin.status === 'rest' ? '😴 Rest Day' : '💪 Workout Type',
+          value: checkin.status === 'rest' ? 'Recovery & Rest' : (checkin.workout_type || 'General Exercise'),
+          inline: true,
+        },
+        ...streakFields(streak),
+      ],
+      footer: {
+        text: 'WaddleFit',
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    return res.json(createSuccessResponse({
+      embed: embed,
+      checkin: {
+        id: checkin.id,
+        user_id: checkin.user_id,
+        status: checkin.status,
+        workout_type: checkin.workout_type,
+        notes: checkin.notes,
+        photo_url: checkin.photo_url,
+        duration_minutes: checkin.duration_minutes,
+        calories_burned: checkin.calories_burned,
+        date: checkin.date,
+        session_count: checkin.session_count,
+        created_at: checkin.created_at,
+      },
+      session_id: changesSession ? target.session?.id ?? null : null,
+      streak: streak,
+    }));
+  } catch (error) {
+    console.error('Discord check-in update error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
+
+// Delete a check-in the bot logged, found by its message. On a day with several sessions only the message's
+// session is removed.
+export async function handleDiscordCheckinDelete(req: AuthedRequest, res: ApiResponse) {
+  try {
+    const { discord_id, discord_message_id }: DiscordDeleteCheckInInput = req.body;
+
+    const found = await findMessageTarget(discord_id, discord_message_id);
+    if ('code' in found) {
+      return sendError(res, found.code, found.error);
+    }
+
+    const streak = found.session
+      ? (await deleteSession(found.checkin, found.session, req.caller)).streak
+      : await deleteCheckIn(found.checkin, req.caller);
+
+    const day = found.checkin.day ?? getLocalDate(found.checkin.date, await getUserTimeZone(found.checkin.user_id));
+    const embed = {
+      title: found.session ? '🗑️ Session Deleted' : '🗑️ Check-in Deleted',
+      description: found.session
+        ? `The ${found.session.workout_type || 'workout'} session from ${day} has been removed; the day's other sessions are kept.`
+        : `The check-in from ${day} has been removed.`,
+      color: 0x95a5a6,
+      fields: streakFields(streak),
+      footer: {
+        text: 'WaddleFit',
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    return res.json(createSuccessResponse({
+      embed: embed,
+      checkin_id: found.checkin.id,
+      session_id: found.session?.id ?? null,
+      streak: streak,
+    }));
+  } catch (error) {
+    console.error('Discord check-in delete error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
+
+// Handle Discord rest day check-in
+export async function handleDiscordRestDay(req: ApiRequest, res: ApiResponse) {
+  try {
+    const { discord_id, username, avatar_url, notes, date, discord_message_id }: DiscordRestDayInput = req.body;
+
+    // Find user by Discord ID
+    const user = await prisma.user.findUnique({
+      where: { discord_id: discord_id },
+    });
+
+    if (!user) {
+      return sendError(res, 'USER_NOT_REGISTERED');
+    }
+
+    // The calendar day it is for, in the member's timezone; past days only within the late-logging window
+    const checkinDay = await resolveCheckInDay(user.id, date);
+    if ('code' in checkinDay) {
+      return sendError(res, checkinDay.code, checkinDay.error);
+    }
+
+    // Create rest day check-in and update the streak together (rest days count for streaks)
+    const logged = await logCheckIn(user.id, checkinDay, {
+      status: 'rest',
+      workout_type: 'Rest Day',
+      notes: notes || 'Planned rest day for recovery',
+      discord_message_id: discord_message_id || null,
+    });
+    if ('code' in logged) {
+      return sendError(res, logged.code);
+    }
+    const { checkin, streak } = logged;
+
+    // Create Discord embed for rest day
+    const embed: any = {
+      title: '😴 Rest Day Logged!',
+      description: `**${username}** has logged a rest day - recovery is important! 💪`,
+      color: 0xffa500, // Orange color for rest
+      thumbnail: {
+        url: avatar_url || user.avatar_url || 'https://cdn.discordapp.com/embed/avatars/0.png',
+      },
+      fields: [
+        {
+          name: '😴 Rest Day',
+          value: 'Recovery & Rest',
+          inline: true,
+        },
+        {
+          name: '🔥 Current Streak',
+          value: `${streak.current_streak} ${streak.unit}`,
+          inline: true,
+        },
+        {
+          name: '📊 Total Check-ins',
+          value: `${streak.total_checkins}`,
+          inline: true,
+        },
+      ],
+      footer: {
+        text: 'WaddleFit - Rest is part of the journey! 💤',
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    if (checkinDay.backdated) {
+      embed.fields.push({
+        name: '📅 Logged For',
+        value: checkinDay.day,
+        inline: true,
+      });
+    }
+
+    // Add notes if provided
+    if (notes) {
+      embed.fields.push({
+        name: '📝 Notes',
+        value: notes,
+        inline: false,
+      });
+    }
+
+    return res.json(createSuccessResponse({
+      embed: embed,
+      checkin: {
+        id: checkin.id,
+        user_id: checkin.user_id,
+        status: checkin.status,
+        workout_type: checkin.workout_type,
+        notes: checkin.notes,
+        date: checkin.date,
+        created_at: checkin.created_at,
+      },
+      streak: streak,
+    }));
+
+  } catch (error) {
+    console.error('Discord rest day error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
+
+// Handle Discord schedule management
+export async function handleDiscordSchedule(req: ApiRequest, res: ApiResponse) {
+  const body: DiscordScheduleInput = req.body;
+  const { action, discord_id } = body;
+
+  try {
+    // Find user by Discord ID
+    const user = await prisma.user.findUnique({
+      where: { discord_id: discord_id },
+    });
+
+    if (!user) {
+      return sendError(res, 'USER_NOT_REGISTERED');
+    }
+
+    if (body.action === 'create' || body.action === 'update') {
+      const { schedule_type, rotation_pattern, monday, tuesday, wednesday, thursday, friday, saturday, sunday, timezone, reminder_time, rest_days_allowed, streak_mode, weekly_goal, rotation_templates, guild_id } = body;
+
+      await setUserGuild(user.id, guild_id);
+      const templateError = rotation_templates && await checkRotationTemplates(user.id, rotation_templates);
+      if (templateError) {
+        return sendError(res, templateError.code, templateError.error);
+      }
+
+      // Check if user already has a schedule
+      const existingSchedule = await prisma.schedule.findFirst({
+        where: { user_id: user.id },
+      });
+
+      let schedule;
+      if (existingSchedule) {
+        // Update existing schedule
+        schedule = await prisma.schedule.update({
+          where: { id: existingSchedule.id },
+          data: {
+            schedule_type,
+            rotation_pattern: schedule_type === 'rotating' ? rotation_pattern : null,
+            monday: schedule_type === 'weekly' ? (monday || false) : false,
+            tuesday: schedule_type === 'weekly' ? (tuesday || false) : false,
+            wednesday: schedule_type === 'weekly' ? (wednesday || false) : false,
+            thursday: schedule_type === 'weekly' ? (thursday || false) : false,
+            friday: schedule_type === 'weekly' ? (friday || false) : false,
+            saturday: schedule_type === 'weekly' ? (saturday || false) : false,
+            sunday: schedule_type === 'weekly' ? (sunday || false) : false,
+            timezone: timezone || 'UTC',
+            reminder_time: reminder_time || '09:00',
+            rest_days_allowed: rest_days_allowed !== undefined ? rest_days_allowed : true,
+            streak_mode: streak_mode || 'daily',
+            weekly_goal: streak_mode === 'weekly_goal' ? weekly_goal : null,
+            rotation_templates: schedule_type === 'rotating' ? toRotationTemplates(rotation_templates) : Prisma.DbNull,
+            current_rotation_day: 0,
+          },
+        });
+      } else {
+        // Create new schedule
+        schedule = await prisma.schedule.create({
+          data: {
+            user_id: user.id,
+            schedule_type,
+            rotation_pattern: schedule_type === 'rotating' ? rotation_pattern : null,
+            monday: schedule_type === 'weekly' ? (monday || false) : false,
+            tuesday: schedule_type === 'weekly' ? (tuesday || false) : false,
+            wednesday: schedule_type === 'weekly' ? (wednesday || false) : false,
+            thursday: schedule_type === 'weekly' ? (thursday || false) : false,
+            friday: schedule_type === 'weekly' ? (friday || false) : false,
+            saturday: schedule_type === 'weekly' ? (saturday || false) : false,
+            sunday: schedule_type === 'weekly' ? (sunday || false) : false,
+            timezone: timezone || 'UTC',
+            reminder_time: reminder_time || '09:00',
+            rest_days_allowed: rest_days_allowed !== undefined ? rest_days_allowed : true,
+            streak_mode: streak_mode || 'daily',
+            weekly_goal: streak_mode === 'weekly_goal' ? weekly_goal : null,
+            rotation_templates: schedule_type === 'rotating' ? toRotationTemplates(rotation_templates) : Prisma.DbNull,
+            current_rotation_day: 0,
+          },
+        });
+      }
+      await setUserTimeZone(user.id, timezone);
+      await recordScheduleChange(user.id, existingSchedule, schedule);
+      await refreshStreak(user.id);
+
+      // Get today's scheduled day type
+      const today = new Date();
+      const scheduled = await getScheduledDayType(user.id, today);
+      
+      return res.json(createSuccessResponse({
+        schedule: {
+          id: schedule.id,
+          user_id: schedule.user_id,
+          schedule_type: schedule.schedule_type,
+          rotation_pattern: schedule.rotation_pattern,
+          monday: schedule.monday,
+          tuesday: schedule.tuesday,
+          wednesday: schedule.wednesday,
+          thursday: schedule.thursday,
+          friday: schedule.friday,
+          saturday: schedule.saturday,
+          sunday: schedule.sunday,
+          timezone: schedule.timezone,
+          reminder_time: schedule.reminder_time,
+          rest_days_allowed: schedule.rest_days_allowed,
+          streak_mode: schedule.streak_mode,
+          weekly_goal: schedule.weekly_goal,
+          rotation_templates: schedule.rotation_templates,
+          current_rotation_day: schedule.current_rotation_day,
+          is_active: schedule.is_active,
+          created_at: schedule.created_at,
+          updated_at: schedule.updated_at,
+        },
+        today_scheduled_type: scheduled?.type ?? null,
+        today_label: scheduled?.label ?? null,
+        today_template: scheduled?.template ? toTemplateResponse(scheduled.template) : null,
+        message: schedule_type === 'rotating' 
+          ? `Rotation schedule created! Pattern: ${rotation_pattern}. Today is: ${describeScheduledDay(scheduled)}`
+          : `Schedule created! Today is: ${describeScheduledDay(scheduled)}`,
+      }));
+
+    } else if (action === 'get') {
+      // Get user's current schedule
+      const schedule = await prisma.schedule.findFirst({
+        where: { user_id: user.id },
+      });
+
+      if (!schedule) {
+        return res.json(createSuccessResponse({
+          schedule: null,
+          today_scheduled_type: null,
+          today_label: null,
+          today_template: null,
+          message: 'No schedule found. Use /schedule create to set up your workout schedule.',
+        }));
+      }
+
+      // Get today's scheduled day type
+      const today = new Date();
+      const scheduled = await getScheduledDayType(user.id, today);
+      
+      return res.json(createSuccessResponse({
+        schedule: {
+          id: schedule.id,
+          user_id: schedule.user_id,
+          schedule_type: schedule.schedule_type,
+          rotation_pattern: schedule.rotation_pattern,
+          monday: schedule.monday,
+          tuesday: schedule.tuesday,
+          wednesday: schedule.wednesday,
+          thursday: schedule.thursday,
+          friday: schedule.friday,
+          saturday: schedule.saturday,
+          sunday: schedule.sunday,
+          timezone: schedule.timezone,
+          reminder_time: schedule.reminder_time,
+          rest_days_allowed: schedule.rest_days_allowed,
+          streak_mode: schedule.streak_mode,
+          weekly_goal: schedule.weekly_goal,
+          rotation_templates: schedule.rotation_templates,
+          current_rotation_day: schedule.current_rotation_day,
+          is_active: schedule.is_active,
+          created_at: schedule.created_at,
+          updated_at: schedule.updated_at,
+        },
+        today_scheduled_type: scheduled?.type ?? null,
+        today_label: scheduled?.label ?? null,
+        today_template: scheduled?.template ? toTemplateResponse(scheduled.template) : null,
+        message: `Current schedule: ${schedule.schedule_type}. Today is: ${describeScheduledDay(scheduled)}`,
+      }));
+
+    } else if (action === 'delete') {
+      // Delete user's schedule
+      const schedule = await prisma.schedule.findFirst({
+        where: { user_id: user.id },
+      });
+
+      if (!schedule) {
+        return sendError(res, 'SCHEDULE_NOT_FOUND', 'No schedule found to delete');
+      }
+
+      await prisma.schedule.delete({
+        where: { id: schedule.id },
+      });
+      await recordScheduleChange(user.id, schedule, null);
+      await refreshStreak(user.id);
+
+      return res.json(createSuccessResponse({
+        message: 'Schedule deleted successfully',
+      }));
+
+    }
+
+  } catch (error) {
+    console.error('Discord schedule error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
+
+const describeFreezes = (streak: StreakData, autoFreeze: boolean): string => {
+  const inventory = `${streak.streak_freezes} streak freeze${streak.streak_freezes === 1 ? '' : 's'} left`;
+  const spending = autoFreeze ? 'spent automatically on missed days' : 'spent only when you use one';
+  return streak.freezable_day
+    ? `${inventory}, ${spending}. Your streak broke on ${streak.freezable_day}; a freeze would save it.`
+    : `${inventory}, ${spending}.`;
+};
+
+// Handle Discord streak freezes: show the inventory, spend one, or turn automatic spending on or off
+export async function handleDiscordStreakFreeze(req: ApiRequest, res: ApiResponse) {
+  const body: DiscordStreakFreezeInput = req.body;
+
+  try {
+    // Find user by Discord ID
+    const user = await prisma.user.findUnique({
+      where: { discord_id: body.discord_id },
+    });
+
+    if (!user) {
+      return sendError(res, 'USER_NOT_REGISTERED');
+    }
+
+    if (body.action === 'use') {
+      const result = await useStreakFreeze(user.id);
+      if ('code' in result) {
+        return sendError(res, result.code);
+      }
+
+      return res.json(createSuccessResponse({
+        frozen_day: result.day,
+        streak: result.streak,
+        auto_streak_freeze: user.auto_streak_freeze,
+        message: `🧊 ${result.day} is covered. Your streak is back at ${result.streak.current_streak} ${result.streak.unit}.`,
+      }));
+    }
+
+    let autoFreeze = user.auto_streak_freeze;
+    if (body.action === 'auto') {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { auto_streak_freeze: body.enabled },
+      });
+      autoFreeze = body.enabled;
+    }
+
+    // Turning automatic spending on may cover a recent break straight away
+    const streak = await refreshStreak(user.id);
+
+    return res.json(createSuccessResponse({
+      streak,
+      auto_streak_freeze: autoFreeze,
+      message: describeFreezes(streak, autoFreeze),
+    }));
+
+  } catch (error) {
+    console.error('Discord streak freeze error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
+
+export async function handleDiscordUserProfile(req: ApiRequest, res: ApiResponse, { discordId }: RouteParams<'/discord/user/:discordId'>) {
+  try {
+    // Find user by Discord ID
+    const user = await prisma.user.findUnique({
+      where: { discord_id: discordId },
+      select: {
+        id: true,
+        discord_id: true,
+        username: true,
+        avatar_url: true,
+        bio: true,
+        timezone: true,
+        is_active: true,
+        created_at: true,
+        updated_at: true,
+      },
+    });
+
+    if (!user) {
+      return sendError(res, 'USER_NOT_REGISTERED');
+    }
+
+    const streak = await calculateStreak(user.id);
+
+    // Get recent check-ins
+    const recentCheckins = await prisma.checkIn.findMany({
+      where: { user_id: user.id },
+      orderBy: { date: 'desc' },
+      take: 5,
+      select: {
+        id: true,
+        workout_type: true,
+        date: true,
+        notes: true,
+        photo_url: true,
+      },
+    });
+
+    // Get cheers received
+    const cheersReceived = await prisma.cheer.count({
+      where: { to_user_id: user.id },
+    });
+
+    // Get cheers sent
+    const cheersSent = await prisma.cheer.count({
+      where: { from_user_id: user.id },
+    });
+
+    // Calculate days since joining
+    const daysSinceJoining = Math.floor((Date.now() - new Date(user.created_at).getTime()) / (1000 * 60 * 60 * 24));
+
+    return res.json(createSuccessResponse({
+      user: {
+        id: user.id,
+        discord_id: user.discord_id,
+        username: user.username,
+        avatar_url: user.avatar_url,
+        bio: user.bio,
+        timezone: user.timezone,
+        is_active: user.is_active,
+        created_at: user.created_at,
+        updated_at: user.updated_at,
+      },
+      stats: {
+        current_streak: streak.current_streak,
+        longest_streak: streak.longest_streak,
+        total_checkins: streak.total_checkins,
+        streak_freezes: streak.streak_freezes,
+        streak_unit: streak.unit,
+        cheers_received: cheersReceived,
+        cheers_sent: cheersSent,
+        days_since_joining: daysSinceJoining,
+      },
+      recent_checkins: recentCheckins,
+    }));
+
+  } catch (error) {
+    console.error('Discord user profile error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
+
+export async function handleDiscordRegisterEmbed(req: ApiRequest, res: ApiResponse) {
+  try {
+    const { discord_id, username, avatar_url }: DiscordUserInput = req.body;
+
+    // Create registration embed with button
+    const embed = {
+      title: '👤 User Not Found',
+      description: `**User:** @${username}\n\nThis user hasn't registered with WaddleTracker yet.\nThey need to register to start tracking their fitness journey!`,
+      color: 0xff6b6b, // Red color
+      thumbnail: {
+        url: avatar_url || 'https://cdn.discordapp.com/embed/avatars/0.png',
+      },
+      fields: [
+        {
+          name: '🔗 How to Register',
+          value: 'Click the button below to register instantly!',
+          inline: false,
+        },
+        {
+          name: '✨ What You Get',
+          value: '• Track your workouts\n• Build streaks\n• Get cheered on\n• Join the community!',
+          inline: false,
+        },
+      ],
+      footer: {
+        text: 'WaddleFit - Your fitness journey starts here!',
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    // Create components with registration button
+    const components = [
+      {
+        type: 1, // Action Row
+        components: [
+          {
+            type: 2, // Button
+            style: 1, // Primary (blue)
+            label: 'Register Now!',
+            custom_id: `register_${discord_id}`,
+            emoji: {
+              name: '🚀',
+            },
+          },
+          {
+            type: 2, // Button
+            style: 2, // Secondary (gray)
+            label: 'Learn More',
+            custom_id: `learn_more_${discord_id}`,
+            emoji: {
+              name: 'ℹ️',
+            },
+          },
+        ],
+      },
+    ];
+
+    return res.json(createSuccessResponse({
+      embed: embed,
+      components: components,
+      user: {
+        discord_id: discord_id,
+        username: username,
+        avatar_url: avatar_url,
+      },
+    }));
+
+  } catch (error) {
+    console.error('Discord register embed error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
+
+export async function handleDiscordRegister(req: ApiRequest, res: ApiResponse) {
+  try {
+    const { discord_id, username, avatar_url, guild_id }: DiscordUserInput = req.body;
+
+    // Check if user already exists
+    const existingUser = await prisma.user.findUnique({
+      where: { discord_id: discord_id },
+    });
+
+    if (existingUser) {
+      return sendError(res, 'USER_ALREADY_REGISTERED');
+    }
+
+    // Create new user
+    const user = await prisma.user.create({
+      data: {
+        discord_id: discord_id,
+        username: username,
+        avatar_url: avatar_url || null,
+        bio: null,
+        timezone: 'UTC',
+        is_active: true,
+        guild_id: guild_id || null,
+      },
+    });
+
+    // Generate JWT token for the new user
+    const token = generateToken(user);
+
+    // Create success embed
+    const successEmbed = {
+      title: '🎉 Welcome to WaddleTracker!',
+      description: `**${username}** has successfully registered!\n\nYou can now start tracking your fitness journey!`,
+      color: 0x00ff00, // Green color
+      thumbnail: {
+        url: user.avatar_url || 'https://cdn.discordapp.com/embed/avatars/0.png',
+      },
+      fields: [
+        {
+          name: '🚀 Get Started',
+          value: 'Use `/checkin` to log your first workout!',
+          inline: false,
+        },
+        {
+          name: '📊 Your Stats',
+          value: '• Current Streak: 0 days\n• Total Check-ins: 0\n• Ready to start!',
+          inline: false,
+        },
+      ],
+      footer: {
+        text: 'WaddleFit - Let\'s get fit together!',
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    return res.status(201).json(createSuccessResponse({
+      user: {
+        id: user.id,
+        discord_id: user.discord_id,
+        username: user.username,
+        avatar_url: user.avatar_url,
+      },
+      token: token,
+      message: 'User registered successfully!',
+      embed: successEmbed,
+    }));
+
+  } catch (error) {
+    console.error('Discord register error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
+
+export async function handleDiscordCheckinEmbed(req: ApiRequest, res: ApiResponse) {
+  try {
+    const { user_id, checkin_id }: DiscordCheckInEmbedInput = req.body;
+
+    // Get user info
+    const user = await prisma.user.findUnique({
+      where: { id: user_id },
+      select: {
+        id: true,
+        username: true,
+        avatar_url: true,
+      },
+    });
+
+    if (!user) {
+      return sendError(res, 'USER_NOT_FOUND');
+    }
+
+    const streak = await calculateStreak(user.id);
+
+    let checkin = null;
+    if (checkin_id) {
+      checkin = await prisma.checkIn.findUnique({
+        where: { id: checkin_id },
+        select: {
+          id: true,
+          workout_type: true,
+          notes: true,
+          photo_url: true,
+          duration_minutes: true,
+          calories_burned: true,
+          date: true,
+          day: true,
+        },
+      });
+    } else {
+      // Get latest check-in
+      checkin = await prisma.checkIn.findFirst({
+        where: { user_id: user_id },
+        orderBy: { date: 'desc' },
+        select: {
+          id: true,
+          workout_type: true,
+          notes: true,
+          photo_url: true,
+          duration_minutes: true,
+          calories_burned: true,
+          date: true,
+          day: true,
+        },
+      });
+    }
+
+    if (!checkin) {
+      return sendError(res, 'CHECKIN_NOT_FOUND');
+    }
+
+    // Create Discord embed
+    const embed: any = {
+      title: `🏋️ ${user.username} just checked in!`,
+      description: `**Workout:** ${checkin.workout_type}\n${checkin.notes ? `**Notes:** ${checkin.notes}\n` : ''}${checkin.duration_minutes ? `**Duration:** ${checkin.duration_minutes} minutes\n` : ''}${checkin.calories_burned ? `**Calories:** ${checkin.calories_burned}\n` : ''}`,
+      color: 0x00ff00, // Green color
+      thumbnail: {
+        url: user.avatar_url || 'https://cdn.discordapp.com/embed/avatars/0.png',
+      },
+      fields: [
+        {
+          name: '🔥 Current Streak',
+          value: `${streak.current_streak} ${streak.unit}`,
+          inline: true,
+        },
+        {
+          name: '📊 Total Check-ins',
+          value: `${streak.total_checkins}`,
+          inline: true,
+        },
+        {
+          name: '📅 Date',
+          value: checkin.day ?? getLocalDate(checkin.date, await getUserTimeZone(user.id)),
+          inline: true,
+        },
+      ],
+      footer: {
+        text: 'WaddleFit - Keep up the great work!',
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    // Add image if available
+    if (checkin.photo_url) {
+      embed.image = {
+        url: checkin.photo_url,
+      };
+    }
+
+    return res.json(createSuccessResponse({
+      embed: embed,
+      user: {
+        id: user.id,
+        username: user.username,
+        avatar_url: user.avatar_url,
+      },
+      checkin: checkin,
+    }));
+
+  } catch (error) {
+    console.error('Discord check-in embed error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
+
+export async function handleDiscordProfileEmbed(req: ApiRequest, res: ApiResponse) {
+  try {
+    const { discord_id: discordId } = req.query as DiscordProfileEmbedQuery;
+
+    // Get user info with stats by Discord ID
+    const user = await prisma.user.findUnique({
+      where: { discord_id: discordId },
+      select: {
+        id: true,
+        discord_id: true,
+        username: true,
+        avatar_url: true,
+        bio: true,
+        created_at: true,
+      },
+    });
+
+    if (!user) {
+      return sendError(res, 'USER_NOT_REGISTERED');
+    }
+
+    const streak = await calculateStreak(user.id);
+
+    // Get recent check-ins
+    const recentCheckins = await prisma.checkIn.findMany({
+      where: { user_id: user.id },
+      orderBy: { date: 'desc' },
+      take: 5,
+      select: {
+        id: true,
+        workout_type: true,
+        date: true,
+        day: true,
+        notes: true,
+      },
+    });
+
+    // Get cheers received
+    const cheersReceived = await prisma.cheer.count({
+      where: { to_user_id: user.id },
+    });
+
+    // Get cheers sent
+    const cheersSent = await prisma.cheer.count({
+      where: { from_user_id: user.id },
+    });
+
+    // Calculate days since joining
+    const daysSinceJoining = Math.floor((Date.now() - new Date(user.created_at).getTime()) / (1000 * 60 * 60 * 24));
+
+    // Weekly-goal members see how this week is going
+    const thisWeek = streak.weeks[streak.weeks.length - 1];
+    const weekFields = thisWeek ? [{
+      name: '🎯 This Week',
+      value: `${thisWeek.workouts}/${thisWeek.goal} workouts`,
+      inline: true,
+    }] : [];
+
+    // Create Discord embed
+    const embed = {
+      title: `👤 ${user.username}'s Profile`,
+      description: user.bio || 'No bio available',
+      color: 0x0099ff, // Blue color
+      thumbnail: {
+        url: user.avatar_url || 'https://cdn.discordapp.com/embed/avatars/0.png',
+      },
+      fields: [
+        {
+          name: '🔥 Current Streak',
+          value: `${streak.current_streak} ${streak.unit}`,
+          inline: true,
+        },
+        {
+          name: '🏆 Longest Streak',
+          value: `${streak.longest_streak} ${streak.unit}`,
+          inline: true,
+        },
+        ...weekFields,
+        {
+          name: '📊 Total Check-ins',
+          value: `${streak.total_checkins}`,
+          inline: true,
+        },
+        {
+          name: '🧊 Streak Freezes',
+          value: `${streak.streak_freezes}`,
+          inline: true,
+        },
+        {
+          name: '🎉 Cheers Received',
+          value: `${cheersReceived}`,
+          inline: true,
+        },
+        {
+          name: '💝 Cheers Sent',
+          value: `${cheersSent}`,
+          inline: true,
+        },
+        {
+          name: '📅 Member Since',
+          value: `${daysSinceJoining} days ago`,
+          inline: true,
+        },
+      ],
+      footer: {
+        text: 'WaddleFit - Fitness Community',
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    // Add recent check-ins if available
+    if (recentCheckins.length > 0) {
+      const timeZone = await getUserTimeZone(user.id);
+      const recentWorkouts = recentCheckins.map(checkin =>
+        `• ${checkin.workout_type} (${checkin.day ?? getLocalDate(checkin.date, timeZone)})`
+      ).join('\n');
+      
+      embed.fields.push({
+        name: '📝 Recent Workouts',
+        value: recentWorkouts,
+        inline: false,
+      });
+    }
+
+    return res.json(createSuccessResponse({
+      embed: embed,
+      user: {
+        id: user.id,
+        username: user.username,
+        avatar_url: user.avatar_url,
+        bio: user.bio,
+      },
+      stats: {
+        current_streak: streak.current_streak,
+        longest_streak: streak.longest_streak,
+        total_checkins: streak.total_checkins,
+        streak_freezes: streak.streak_freezes,
+        streak_unit: streak.unit,
+        cheers_received: cheersReceived,
+        cheers_sent: cheersSent,
+        days_since_joining: daysSinceJoining,
+      },
+    }));
+
+  } catch (error) {
+    console.error('Discord profile embed error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
+
+export async function handleDiscordCheerEmbed(req: ApiRequest, res: ApiResponse) {
+  try {
+    const { cheer_id }: DiscordCheerEmbedInput = req.body;
+
+    // Get cheer with user info
+    const cheer = await prisma.cheer.findUnique({
+      where: { id: cheer_id },
+      include: {
+        from_user: {
+          select: {
+            id: true,
+            username: true,
+            avatar_url: true,
+          },
+        },
+        to_user: {
+          select: {
+            id: true,
+            username: true,
+            avatar_url: true,
+          },
+        },
+      },
+    });
+
+    if (!cheer) {
+      return sendError(res, 'CHEER_NOT_FOUND');
+    }
+
+    // Create Discord embed
+    const embed = {
+      title: '🎉 Someone sent a cheer!',
+      description: `**${cheer.from_user.username}** cheered **${cheer.to_user.username}**:\n\n"${cheer.message}"`,
+      color: 0xffd700, // Gold color
+      thumbnail: {
+        url: cheer.from_user.avatar_url || 'https://cdn.discordapp.com/embed/avatars/0.png',
+      },
+      fields: [
+        {
+          name: '👤 From',
+          value: cheer.from_user.username,
+          inline: true,
+        },
+        {
+          name: '👤 To',
+          value: cheer.to_user.username,
+          inline: true,
+        },
+        {
+          name: '💬 Type',
+          value: cheer.type || 'general',
+          inline: true,
+        },
+      ],
+      footer: {
+        text: 'WaddleFit - Spread the positivity!',
+      },
+      timestamp: new Date(cheer.created_at).toISOString(),
+    };
+
+    return res.json(createSuccessResponse({
+      embed: embed,
+      cheer: {
+        id: cheer.id,
+        message: cheer.message,
+        type: cheer.type,
+        created_at: cheer.created_at,
+      },
+      from_user: cheer.from_user,
+      to_user: cheer.to_user,
+    }));
+
+  } catch (error) {
+    console.error('Discord cheer embed error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
+
+export async function handleDiscordWebhook(req: ApiRequest, res: ApiResponse) {
+  try {
+    const { webhook_url, event_type, data }: DiscordWebhookInput = req.body;
+
+    let payload;
+    
+    switch (event_type) {
+      case 'checkin':
+        payload = {
+          content: `🏋️ **${data.username}** just checked in!`,
+          embeds: [data.embed],
+        };
+        break;
+        
+      case 'cheer':
+        payload = {
+          content: `🎉 **${data.from_username}** cheered **${data.to_username}**!`,
+          embeds: [data.embed],
+        };
+        break;
+        
+      case 'streak_milestone':
+        payload = {
+          content: `🔥 **${data.username}** reached a ${data.streak_count} day streak! Amazing work!`,
+          embeds: [data.embed],
+        };
+        break;
+        
+      case 'profile':
+        payload = {
+          content: `👤 **${data.username}'s** profile`,
+          embeds: [data.embed],
+        };
+        break;
+        
+      default:
+        payload = {
+          content: data.message || 'WaddleFit notification',
+          embeds: data.embed ? [data.embed] : undefined,
+        };
+    }
+
+    // Send webhook to Discord
+    const webhookResponse = await fetch(webhook_url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (!webhookResponse.ok) {
+      const errorText = await webhookResponse.text();
+      console.error('Discord webhook error:', errorText);
+      return sendError(res, 'WEBHOOK_DELIVERY_FAILED');
+    }
+
+    const webhookResult = await webhookResponse.json() as any;
+
+    return res.json(createSuccessResponse({
+      success: true,
+      webhook_id: webhookResult.id,
+      event_type: event_type,
+      sent_at: new Date().toISOString(),
+    }));
+
+  } catch (error) {
+    console.error('Discord webhook error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
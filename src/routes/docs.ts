@@ -0,0 +1,42 @@
+import { ApiRequest, ApiResponse } from '../lib/http';
+import { buildOpenApiDocument } from '../lib/openapi';
+import { Router } from '../lib/router';
+import { API_VERSION } from './info';
+
+// Serves the OpenAPI document for a router; built on first request, once every route is registered
+export const createOpenApiHandler = (router: Router) => {
+  let document: ReturnType<typeof buildOpenApiDocument> | undefined;
+
+  return async (req: ApiRequest, res: ApiResponse) => {
+    document ??= buildOpenApiDocument(router, {
+      title: 'WaddleTracker API',
+      version: API_VERSION,
+      description: 'Generated from the route table and its Zod schemas.',
+    });
+    return res.json(document);
+  };
+};
+
+const SWAGGER_UI_VERSION = '5.17.14';
+
+const docsPage = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>WaddleTracker API</title>
+  <link rel="stylesheet" href="https://unpkg.com/swagger-ui-dist@${SWAGGER_UI_VERSION}/swagger-ui.css" />
+</head>
+<body>
+  <div id="swagger-ui"></div>
+  <script src="https://unpkg.com/swagger-ui-dist@${SWAGGER_UI_VERSION}/swagger-ui-bundle.js"></script>
+  <script>
+    window.ui = SwaggerUIBundle({ url: 'openapi.json', dom_id: '#swagger-ui' });
+  </script>
+</body>
+</html>`;
+
+// Swagger UI viewer for the generated document
+export async function handleDocsViewer(req: ApiRequest, res: ApiResponse) {
+  res.setHeader('Content-Type', 'text/html; charset=utf-8');
+  return res.status(200).send(docsPage);
+}
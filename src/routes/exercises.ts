@@ -0,0 +1,56 @@
+import { ApiRequest, ApiResponse } from '../lib/http';
+import { prisma } from '../lib/prisma';
+import { createSuccessResponse, ExerciseHistoryQuery, ExercisesQuery } from '../lib/validation';
+import { sendError } from '../lib/errors';
+import { RouteParams } from '../lib/router';
+import { getExerciseHistory, toExerciseSlug } from '../lib/exercises';
+
+// Exercise handlers
+export async function handleExerciseList(req: ApiRequest, res: ApiResponse) {
+  try {
+    const { search } = req.query as ExercisesQuery;
+
+    const exercises = await prisma.exercise.findMany({
+      where: search ? { slug: { contains: toExerciseSlug(search) } } : {},
+      select: { id: true, name: true, created_at: true },
+      orderBy: { name: 'asc' },
+    });
+
+    return res.json(createSuccessResponse(exercises));
+
+  } catch (error) {
+    console.error('Exercise list error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
+
+// Volume and estimated one-rep max of a member's exercise, one entry per day it was logged
+export async function handleExerciseHistory(
+  req: ApiRequest,
+  res: ApiResponse,
+  { id, exerciseId }: RouteParams<'/users/:id/exercises/:exerciseId/history'>
+) {
+  try {
+    const { unit } = req.query as ExerciseHistoryQuery;
+
+    const user = await prisma.user.findUnique({ where: { id }, select: { id: true, username: true } });
+    if (!user) {
+      return sendError(res, 'USER_NOT_FOUND');
+    }
+
+    const exercise = await prisma.exercise.findUnique({ where: { id: exerciseId }, select: { id: true, name: true } });
+    if (!exercise) {
+      return sendError(res, 'EXERCISE_NOT_FOUND');
+    }
+
+    return res.json(createSuccessResponse({
+      user,
+      exercise,
+      ...await getExerciseHistory(id, exerciseId, unit),
+    }));
+
+  } catch (error) {
+    console.error('Exercise history error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
@@ -0,0 +1,155 @@
+import { ApiRequest, ApiResponse } from '../lib/http';
+import { prisma } from '../lib/prisma';
+import { createSuccessResponse, GalleryQuery } from '../lib/validation';
+import { sendError } from '../lib/errors';
+import { RouteParams } from '../lib/router';
+import { calculateStreak } from '../lib/streak';
+
+// Gallery handler
+export async function handleGalleryPhotos(req: ApiRequest, res: ApiResponse, { userId }: RouteParams<'/gallery/:userId'>) {
+  try {
+    const { page: pageNum, limit: limitNum, status, year, month } = req.query as GalleryQuery;
+    const skip = (pageNum - 1) * limitNum;
+
+    // Build date filter
+    let dateFilter: any = {};
+    if (year !== 'all') {
+      dateFilter.gte = new Date(year, 0, 1);
+      dateFilter.lt = new Date(year + 1, 0, 1);
+    }
+
+    if (month !== 'all' && year !== 'all') {
+      dateFilter.gte = new Date(year, month - 1, 1);
+      dateFilter.lt = new Date(year, month, 1);
+    }
+
+    // Build status filter
+    let statusFilter: any = {};
+    if (status !== 'all') {
+      statusFilter.status = status;
+    }
+
+    // Get user info
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        username: true,
+        avatar_url: true,
+      },
+    });
+
+    if (!user) {
+      return sendError(res, 'USER_NOT_FOUND');
+    }
+
+    const streak = await calculateStreak(userId);
+
+    // Get check-ins with photos
+    const whereClause = {
+      user_id: userId,
+      photo_url: { not: null },
+      ...statusFilter,
+      ...(Object.keys(dateFilter).length > 0 ? { date: dateFilter } : {}),
+    };
+
+    const [checkIns, totalCount] = await Promise.all([
+      prisma.checkIn.findMany({
+        where: whereClause,
+        select: {
+          id: true,
+          date: true,
+          status: true,
+          photo_url: true,
+          discord_message_id: true,
+          created_at: true,
+        },
+        orderBy: { date: 'desc' },
+        skip,
+        take: limitNum,
+      }),
+      prisma.checkIn.count({ where: whereClause }),
+    ]);
+
+    // Get statistics
+    const stats = await prisma.checkIn.groupBy({
+      by: ['status'],
+      where: {
+        user_id: userId,
+        photo_url: { not: null },
+        ...(Object.keys(dateFilter).length > 0 ? { date: dateFilter } : {}),
+      },
+      _count: { status: true },
+    });
+
+    const statusCounts = stats.reduce((acc, stat) => {
+      acc[stat.status] = stat._count.status;
+      return acc;
+    }, {} as Record<string, number>);
+
+    // Get year/month options for filters
+    const yearMonthOptions = await prisma.checkIn.findMany({
+      where: {
+        user_id: userId,
+        photo_url: { not: null },
+      },
+      select: { date: true },
+      orderBy: { date: 'desc' },
+    });
+
+    const years = [...new Set(yearMonthOptions.map(c => new Date(c.date).getFullYear()))].sort((a, b) => b - a);
+    const months = [...new Set(yearMonthOptions.map(c => new Date(c.date).getMonth() + 1))].sort((a, b) => a - b);
+
+    // Format response
+    const photos = checkIns.map(checkIn => ({
+      id: checkIn.id,
+      date: checkIn.date,
+      status: checkIn.status,
+      photo_url: checkIn.photo_url,
+      discord_message_id: checkIn.discord_message_id,
+      created_at: checkIn.created_at,
+      formatted_date: new Date(checkIn.date).toLocaleDateString(),
+      formatted_time: new Date(checkIn.created_at).toLocaleTimeString(),
+    }));
+
+    const response = {
+      user: {
+        id: user.id,
+        username: user.username,
+        avatar_url: user.avatar_url,
+        streak_count: streak.current_streak,
+        longest_streak: streak.longest_streak,
+        total_checkins: streak.total_checkins,
+      },
+      photos,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total: totalCount,
+        pages: Math.ceil(totalCount / limitNum),
+        has_next: pageNum * limitNum < totalCount,
+        has_prev: pageNum > 1,
+      },
+      filters: {
+        status: status,
+        year: year,
+        month: month,
+      },
+      stats: {
+        total_photos: totalCount,
+        went_photos: statusCounts.went || 0,
+        missed_photos: statusCounts.missed || 0,
+      },
+      filter_options: {
+        years,
+        months,
+        statuses: ['all', 'went', 'missed'],
+      },
+    };
+
+    return res.json(createSuccessResponse(response, 'Photo gallery retrieved'));
+  } catch (error) {
+    console.error('Photo gallery error:', error);
+    return sendError(res, 'INTERNAL_ERROR', 'Failed to fetch photo gallery');
+  }
+}
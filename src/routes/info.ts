@@ -0,0 +1,26 @@
+import { ApiRequest, ApiResponse } from '../lib/http';
+
+export const API_VERSION = '2.0.0';
+
+// Main API endpoint
+export async function handleMainAPI(req: ApiRequest, res: ApiResponse) {
+  const apiInfo = {
+    message: 'WaddleTracker API',
+    version: API_VERSION,
+    // The route list is generated from the route table; see /api/docs for a browsable version
+    documentation: {
+      openapi: '/api/openapi.json',
+      viewer: '/api/docs'
+    },
+    features: {
+      discord_bot_integration: true,
+      photo_gallery: true,
+      notifications_system: true,
+      leaderboards: true,
+      analytics: true,
+      webhook_support: true
+    }
+  };
+
+  return res.json(apiInfo);
+}
@@ -0,0 +1,169 @@
+import { ApiRequest, ApiResponse } from '../lib/http';
+import { prisma } from '../lib/prisma';
+import { createSuccessResponse, CheckinLeaderboardQuery, StreakLeaderboardQuery } from '../lib/validation';
+import { sendError } from '../lib/errors';
+import { calculateStreak, rankByStreak } from '../lib/streak';
+
+// Leaderboard handlers
+export async function handleLeaderboardStreaks(req: ApiRequest, res: ApiResponse) {
+  try {
+    const { limit: limitNum, type, mode } = req.query as StreakLeaderboardQuery;
+
+    const kind = mode === 'weekly_goal' ? 'Weekly Goal ' : '';
+    const title = type === 'current' ? `🔥 Current ${kind}Streak Leaderboard` : `🏆 Longest ${kind}Streak Leaderboard`;
+    const unit = mode === 'weekly_goal' ? 'weeks' : 'days';
+
+    // Ranked on live streaks, so a streak that lapsed since the last check-in drops out
+    const ranked = await rankByStreak(type === 'current' ? 'current_streak' : 'longest_streak', limitNum, mode);
+    const users = await prisma.user.findMany({
+      where: { id: { in: ranked.map(entry => entry.userId) } },
+      select: {
+        id: true,
+        discord_id: true,
+        username: true,
+        avatar_url: true,
+        joined_at: true,
+      },
+    });
+    const usersById = new Map(users.map(user => [user.id, user]));
+
+    const leaderboard = ranked.map(({ userId, streak }, index) => {
+      const user = usersById.get(userId)!;
+      return {
+        rank: index + 1,
+        user: {
+          id: user.id,
+          discord_id: user.discord_id,
+          username: user.username,
+          avatar_url: user.avatar_url,
+        },
+        streak_count: streak.current_streak,
+        longest_streak: streak.longest_streak,
+        streak_unit: streak.unit,
+        total_checkins: streak.total_checkins,
+        joined_at: user.joined_at,
+      };
+    });
+
+    const embedData = {
+      title,
+      description: `Top ${limitNum} users by ${type === 'current' ? 'current streak' : 'longest streak'}`,
+      color: 0xffd700,
+      fields: leaderboard.map((entry) => ({
+        name: `${getRankEmoji(entry.rank)} ${entry.user.username}`,
+        value: `${type === 'current' ? 'Current' : 'Longest'}: **${type === 'current' ? entry.streak_count : entry.longest_streak}** ${unit}\nTotal: ${entry.total_checkins} check-ins`,
+        inline: true,
+      })),
+      footer: { text: 'Keep pushing yourself! 💪' },
+      timestamp: new Date().toISOString(),
+    };
+
+    return res.json(createSuccessResponse({
+      leaderboard,
+      embed: embedData,
+    }, 'Streak leaderboard generated'));
+  } catch (error) {
+    console.error('Streak leaderboard error:', error);
+    return sendError(res, 'INTERNAL_ERROR', 'Failed to fetch leaderboard');
+  }
+}
+
+export async function handleLeaderboardCheckins(req: ApiRequest, res: ApiResponse) {
+  try {
+    const { limit: limitNum, period, by } = req.query as CheckinLeaderboardQuery;
+
+    let dateFilter: any = {};
+    let periodText = 'all time';
+
+    if (period === 'week') {
+      const weekAgo = new Date();
+      weekAgo.setDate(weekAgo.getDate() - 7);
+      dateFilter = { gte: weekAgo };
+      periodText = 'this week';
+    } else if (period === 'month') {
+      const monthAgo = new Date();
+      monthAgo.setMonth(monthAgo.getMonth() - 1);
+      dateFilter = { gte: monthAgo };
+      periodText = 'this month';
+    } else if (period === 'year') {
+      const yearAgo = new Date();
+      yearAgo.setFullYear(yearAgo.getFullYear() - 1);
+      dateFilter = { gte: yearAgo };
+      periodText = 'this year';
+    }
+
+    // Counted in the database. Only days the member worked out count, whatever the period; rest and missed
+    // days are left out. A day counts once as a check-in; `by=sessions` ranks every session of it.
+    const counts = await prisma.checkIn.groupBy({
+      by: ['user_id'],
+      where: { status: 'went', ...(period !== 'all' && { date: dateFilter }) },
+      _count: { _all: true },
+      _sum: { session_count: true },
+      orderBy: [by === 'sessions' ? { _sum: { session_count: 'desc' } } : { _count: { id: 'desc' } }, { user_id: 'asc' }],
+      take: limitNum,
+    });
+
+    const users = await prisma.user.findMany({
+      where: { id: { in: counts.map(count => count.user_id) } },
+      select: { id: true, discord_id: true, username: true, avatar_url: true, joined_at: true },
+    });
+
+    const usersWithCounts = counts.flatMap(count => {
+      const user = users.find(candidate => candidate.id === count.user_id);
+      return user ? [{ ...user, checkin_count: count._count._all, session_count: count._sum.session_count ?? 0 }] : [];
+    });
+
+    // Live streaks of the listed users only
+    const streaks = await Promise.all(usersWithCounts.map(user => calculateStreak(user.id)));
+
+    const leaderboard = usersWithCounts.map((user, index) => ({
+      rank: index + 1,
+      user: {
+        id: user.id,
+        discord_id: user.discord_id,
+        username: user.username,
+        avatar_url: user.avatar_url,
+      },
+      checkin_count: user.checkin_count,
+      session_count: user.session_count,
+      streak_count: streaks[index].current_streak,
+      longest_streak: streaks[index].longest_streak,
+      streak_unit: streaks[index].unit,
+      joined_at: user.joined_at,
+    }));
+
+    const embedData = {
+      title: '📊 Check-in Leaderboard',
+      description: `Top ${limitNum} users by ${by === 'sessions' ? 'training sessions' : 'check-ins'} (${periodText})`,
+      color: 0x00ff00,
+      fields: leaderboard.map((entry) => ({
+        name: `${getRankEmoji(entry.rank)} ${entry.user.username}`,
+        value: by === 'sessions'
+          ? `Sessions: **${entry.session_count}**\nCheck-ins: ${entry.checkin_count}\nCurrent Streak: ${entry.streak_count} ${entry.streak_unit}`
+          : `Check-ins: **${entry.checkin_count}**\nCurrent Streak: ${entry.streak_count} ${entry.streak_unit}`,
+        inline: true,
+      })),
+      footer: { text: 'Consistency is key! 🎯' },
+      timestamp: new Date().toISOString(),
+    };
+
+    return res.json(createSuccessResponse({
+      leaderboard,
+      embed: embedData,
+      period: periodText,
+    }, 'Check-in leaderboard generated'));
+  } catch (error) {
+    console.error('Check-in leaderboard error:', error);
+    return sendError(res, 'INTERNAL_ERROR', 'Failed to fetch leaderboard');
+  }
+}
+
+// Helper function
+function getRankEmoji(rank: number): string {
+  switch (rank) {
+    case 1: return '🥇';
+    case 2: return '🥈';
+    case 3: return '🥉';
+    default: return `${rank}.`;
+  }
+}
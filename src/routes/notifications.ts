@@ -0,0 +1,102 @@
+import { ApiRequest, ApiResponse } from '../lib/http';
+import { prisma } from '../lib/prisma';
+import { createSuccessResponse, MarkNotificationsReadInput, NotificationsQuery } from '../lib/validation';
+import { sendError } from '../lib/errors';
+import { RouteParams } from '../lib/router';
+
+// Notifications handlers
+export async function handleNotificationsList(req: ApiRequest, res: ApiResponse, { userId }: RouteParams<'/notifications/:userId'>) {
+  try {
+    const { page: pageNum, limit: limitNum, type, unread_only } = req.query as NotificationsQuery;
+    const skip = (pageNum - 1) * limitNum;
+
+    // Build filters
+    let whereClause: any = { user_id: userId };
+    
+    if (type !== 'all') {
+      whereClause.type = type;
+    }
+
+    if (unread_only) {
+      whereClause.read_at = null;
+    }
+
+    const [notifications, totalCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: whereClause,
+        include: {
+          from_user: {
+            select: {
+              id: true,
+              username: true,
+              avatar_url: true,
+            },
+          },
+        },
+        orderBy: { created_at: 'desc' },
+        skip,
+        take: limitNum,
+      }),
+      prisma.notification.count({ where: whereClause }),
+    ]);
+
+    const response = {
+      notifications,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total: totalCount,
+        pages: Math.ceil(totalCount / limitNum),
+        has_next: pageNum * limitNum < totalCount,
+        has_prev: pageNum > 1,
+      },
+      filters: {
+        type,
+        unread_only,
+      },
+    };
+
+    return res.json(createSuccessResponse(response, 'Notifications retrieved'));
+  } catch (error) {
+    console.error('Notifications error:', error);
+    return sendError(res, 'INTERNAL_ERROR', 'Failed to fetch notifications');
+  }
+}
+
+export async function handleNotificationsMarkRead(req: ApiRequest, res: ApiResponse, { userId }: RouteParams<'/notifications/:userId'>) {
+  try {
+    // Mark specific notifications as read
+    const { notification_ids }: MarkNotificationsReadInput = req.body;
+
+    const updated = await prisma.notification.updateMany({
+      where: {
+        id: { in: notification_ids },
+        user_id: userId,
+      },
+      data: { read_at: new Date() },
+    });
+
+    return res.json(createSuccessResponse({ updated_count: updated.count }, 'Notifications marked as read'));
+  } catch (error) {
+    console.error('Notifications mark read error:', error);
+    return sendError(res, 'INTERNAL_ERROR', 'Failed to update notifications');
+  }
+}
+
+export async function handleNotificationsMarkAllRead(req: ApiRequest, res: ApiResponse, { userId }: RouteParams<'/notifications/:userId'>) {
+  try {
+    // Mark all notifications as read
+    const updatedCount = await prisma.notification.updateMany({
+      where: {
+        user_id: userId,
+        read_at: null,
+      },
+      data: { read_at: new Date() },
+    });
+
+    return res.json(createSuccessResponse({ updated_count: updatedCount.count }, 'All notifications marked as read'));
+  } catch (error) {
+    console.error('Notifications mark all read error:', error);
+    return sendError(res, 'INTERNAL_ERROR', 'Failed to update notifications');
+  }
+}
@@ -0,0 +1,233 @@
+import { Prisma } from '@prisma/client';
+import { ApiRequest, ApiResponse } from '../lib/http';
+import { UserRequest } from '../middleware/auth';
+import { prisma } from '../lib/prisma';
+import { createSuccessResponse, CreateScheduleInput, FlexibleScheduleInput } from '../lib/validation';
+import { sendError } from '../lib/errors';
+import { RouteParams } from '../lib/router';
+import { describeScheduledDay, getScheduledDayType, recordScheduleChange } from '../lib/schedule';
+import { refreshStreak } from '../lib/streak';
+import { setUserTimeZone } from '../lib/users';
+import { checkRotationTemplates, toRotationTemplates, toTemplateResponse } from '../lib/templates';
+
+// Schedule handlers
+export async function handleScheduleCreate(req: UserRequest, res: ApiResponse) {
+  try {
+    const { 
+      monday, tuesday, wednesday, thursday, friday, saturday, sunday,
+      timezone, reminder_time, is_active 
+    }: CreateScheduleInput = req.body;
+
+    // Check if user already has a schedule
+    const existingSchedule = await prisma.schedule.findFirst({
+      where: { user_id: req.user.id },
+    });
+
+    let schedule;
+    if (existingSchedule) {
+      // Update existing schedule
+      schedule = await prisma.schedule.update({
+        where: { id: existingSchedule.id },
+        data: {
+          monday: monday || false,
+          tuesday: tuesday || false,
+          wednesday: wednesday || false,
+          thursday: thursday || false,
+          friday: friday || false,
+          saturday: saturday || false,
+          sunday: sunday || false,
+          timezone: timezone || 'UTC',
+          reminder_time: reminder_time || '09:00',
+          is_active: is_active !== undefined ? is_active : true,
+        },
+      });
+    } else {
+      // Create new schedule
+      schedule = await prisma.schedule.create({
+        data: {
+          user_id: req.user.id,
+          monday: monday || false,
+          tuesday: tuesday || false,
+          wednesday: wednesday || false,
+          thursday: thursday || false,
+          friday: friday || false,
+          saturday: saturday || false,
+          sunday: sunday || false,
+          timezone: timezone || 'UTC',
+          reminder_time: reminder_time || '09:00',
+          is_active: is_active !== undefined ? is_active : true,
+        },
+      });
+    }
+    await setUserTimeZone(req.user.id, timezone);
+    await recordScheduleChange(req.user.id, existingSchedule, schedule);
+    await refreshStreak(req.user.id);
+
+    return res.status(201).json(createSuccessResponse({
+      schedule: {
+        id: schedule.id,
+        user_id: schedule.user_id,
+        monday: schedule.monday,
+        tuesday: schedule.tuesday,
+        wednesday: schedule.wednesday,
+        thursday: schedule.thursday,
+        friday: schedule.friday,
+        saturday: schedule.saturday,
+        sunday: schedule.sunday,
+        timezone: schedule.timezone,
+        reminder_time: schedule.reminder_time,
+        is_active: schedule.is_active,
+        created_at: schedule.created_at,
+        updated_at: schedule.updated_at,
+      },
+    }));
+
+  } catch (error) {
+    console.error('Schedule create error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
+
+// Handle flexible schedule creation (with rotation patterns)
+export async function handleFlexibleScheduleCreate(req: UserRequest, res: ApiResponse) {
+  try {
+    const { 
+      schedule_type, rotation_pattern, monday, tuesday, wednesday, thursday, friday, saturday, sunday,
+      timezone, reminder_time, rest_days_allowed, streak_mode, weekly_goal, rotation_templates
+    }: FlexibleScheduleInput = req.body;
+
+    const templateError = rotation_templates && await checkRotationTemplates(req.user.id, rotation_templates);
+    if (templateError) {
+      return sendError(res, templateError.code, templateError.error);
+    }
+
+    // Check if user already has a schedule
+    const existingSchedule = await prisma.schedule.findFirst({
+      where: { user_id: req.user.id },
+    });
+
+    let schedule;
+    if (existingSchedule) {
+      // Update existing schedule
+      schedule = await prisma.schedule.update({
+        where: { id: existingSchedule.id },
+        data: {
+          schedule_type,
+          rotation_pattern: schedule_type === 'rotating' ? rotation_pattern : null,
+          monday: schedule_type === 'weekly' ? (monday || false) : false,
+          tuesday: schedule_type === 'weekly' ? (tuesday || false) : false,
+          wednesday: schedule_type === 'weekly' ? (wednesday || false) : false,
+          thursday: schedule_type === 'weekly' ? (thursday || false) : false,
+          friday: schedule_type === 'weekly' ? (friday || false) : false,
+          saturday: schedule_type === 'weekly' ? (saturday || false) : false,
+          sunday: schedule_type === 'weekly' ? (sunday || false) : false,
+          timezone: timezone || 'UTC',
+          reminder_time: reminder_time || '09:00',
+          rest_days_allowed: rest_days_allowed !== undefined ? rest_days_allowed : true,
+          streak_mode: streak_mode || 'daily',
+          weekly_goal: streak_mode === 'weekly_goal' ? weekly_goal : null,
+          rotation_templates: schedule_type === 'rotating' ? toRotationTemplates(rotation_templates) : Prisma.DbNull,
+          current_rotation_day: 0,
+        },
+      });
+    } else {
+      // Create new schedule
+      schedule = await prisma.schedule.create({
+        data: {
+          user_id: req.user.id,
+          schedule_type,
+          rotation_pattern: schedule_type === 'rotating' ? rotation_pattern : null,
+          monday: schedule_type === 'weekly' ? (monday || false) : false,
+          tuesday: schedule_type === 'weekly' ? (tuesday || false) : false,
+          wednesday: schedule_type === 'weekly' ? (wednesday || false) : false,
+          thursday: schedule_type === 'weekly' ? (thursday || false) : false,
+          friday: schedule_type === 'weekly' ? (friday || false) : false,
+          saturday: schedule_type === 'weekly' ? (saturday || false) : false,
+          sunday: schedule_type === 'weekly' ? (sunday || false) : false,
+          timezone: timezone || 'UTC',
+          reminder_time: reminder_time || '09:00',
+          rest_days_allowed: rest_days_allowed !== undefined ? rest_days_allowed : true,
+          streak_mode: streak_mode || 'daily',
+          weekly_goal: streak_mode === 'weekly_goal' ? weekly_goal : null,
+          rotation_templates: schedule_type === 'rotating' ? toRotationTemplates(rotation_templates) : Prisma.DbNull,
+          current_rotation_day: 0,
+        },
+      });
+    }
+    await setUserTimeZone(req.user.id, timezone);
+    await recordScheduleChange(req.user.id, existingSchedule, schedule);
+    await refreshStreak(req.user.id);
+
+    // Get today's scheduled day type
+    const today = new Date();
+    const scheduled = await getScheduledDayType(req.user.id, today);
+    
+    return res.status(201).json(createSuccessResponse({
+      schedule: {
+        id: schedule.id,
+        user_id: schedule.user_id,
+        schedule_type: schedule.schedule_type,
+        rotation_pattern: schedule.rotation_pattern,
+        monday: schedule.monday,
+        tuesday: schedule.tuesday,
+        wednesday: schedule.wednesday,
+        thursday: schedule.thursday,
+        friday: schedule.friday,
+        saturday: schedule.saturday,
+        sunday: schedule.sunday,
+        timezone: schedule.timezone,
+        reminder_time: schedule.reminder_time,
+        rest_days_allowed: schedule.rest_days_allowed,
+        streak_mode: schedule.streak_mode,
+        weekly_goal: schedule.weekly_goal,
+        rotation_templates: schedule.rotation_templates,
+        current_rotation_day: schedule.current_rotation_day,
+        is_active: schedule.is_active,
+        created_at: schedule.created_at,
+        updated_at: schedule.updated_at,
+      },
+      today_scheduled_type: scheduled?.type ?? null,
+      today_label: scheduled?.label ?? null,
+      today_template: scheduled?.template ? toTemplateResponse(scheduled.template) : null,
+      message: schedule_type === 'rotating' 
+        ? `Rotation schedule created! Pattern: ${rotation_pattern}. Today is: ${describeScheduledDay(scheduled)}`
+        : `Schedule created! Today is: ${describeScheduledDay(scheduled)}`,
+    }));
+
+  } catch (error) {
+    console.error('Flexible schedule creation error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
+
+export async function handleScheduleGet(req: ApiRequest, res: ApiResponse, { userId }: RouteParams<'/schedules/:userId'>) {
+  try {
+    const schedule = await prisma.schedule.findFirst({
+      where: { user_id: userId },
+      select: {
+        id: true,
+        monday: true,
+        tuesday: true,
+        wednesday: true,
+        thursday: true,
+        friday: true,
+        saturday: true,
+        sunday: true,
+        timezone: true,
+        reminder_time: true,
+        is_active: true,
+        created_at: true,
+        updated_at: true,
+      },
+    });
+
+    if (!schedule) {
+      return sendError(res, 'SCHEDULE_NOT_FOUND');
+    }
+
+    return res.json(createSuccessResponse(schedule));
+  } catch (error) {
+    console.error('Schedule get error:', error);
+    return sendError(res, 'INTERNAL_ERROR', 'Failed to fetch schedule');
+  }
+}
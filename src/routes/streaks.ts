@@ -0,0 +1,120 @@
+import { ApiRequest, ApiResponse } from '../lib/http';
+import { prisma } from '../lib/prisma';
+import { createSuccessResponse, GrantStreakFreezesInput } from '../lib/validation';
+import { sendError } from '../lib/errors';
+import { RouteParams } from '../lib/router';
+import { calculateStreak, grantStreakFreezes } from '../lib/streak';
+
+// Streak handler
+export async function handleStreakGet(req: ApiRequest, res: ApiResponse, { userId }: RouteParams<'/streak/:userId'>) {
+  try {
+    // Check if user exists
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return sendError(res, 'USER_NOT_FOUND');
+    }
+
+    // Computed live; the stored columns are brought up to date by writes
+    const streakData = await calculateStreak(userId);
+
+    // Get additional streak information
+    const checkins = await prisma.checkIn.findMany({
+      where: { user_id: userId },
+      orderBy: { date: 'desc' },
+      take: 10,
+    });
+
+    const recentCheckins = checkins.map(checkin => ({
+      id: checkin.id,
+      date: checkin.date,
+      workout_type: checkin.workout_type,
+      notes: checkin.notes,
+    }));
+
+    return res.json(createSuccessResponse({
+      ...streakData,
+      recent_checkins: recentCheckins,
+      last_checkin: checkins[0] ? {
+        id: checkins[0].id,
+        date: checkins[0].date,
+        workout_type: checkins[0].workout_type,
+      } : null,
+    }));
+  } catch (error) {
+    console.error('Streak get error:', error);
+    return sendError(res, 'INTERNAL_ERROR', 'Failed to fetch streak data');
+  }
+}
+
+// Every streak the user has had, newest first, as recorded by the streak engine. Stored periods are as
+// fresh as the stored streak: written with every check-in and kept up by the scheduled refresh.
+export async function handleStreakHistory(req: ApiRequest, res: ApiResponse, { userId }: RouteParams<'/streak/:userId/history'>) {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        current_streak: true,
+        longest_streak: true,
+        streak_periods: { orderBy: { start_day: 'desc' } },
+      },
+    });
+
+    if (!user) {
+      return sendError(res, 'USER_NOT_FOUND');
+    }
+
+    const timeline = user.streak_periods.map(period => ({
+      start_day: period.start_day,
+      end_day: period.end_day,
+      length: period.length,
+      unit: period.unit,
+      ongoing: period.break_day === null,
+      break_day: period.break_day,
+      break_reason: period.break_reason,
+    }));
+
+    // The earliest of equally long streaks is the record
+    const best = timeline.reduce<typeof timeline[number] | null>(
+      (record, period) => (!record || period.length >= record.length ? period : record),
+      null
+    );
+
+    return res.json(createSuccessResponse({
+      current_streak: user.current_streak,
+      longest_streak: user.longest_streak,
+      total_streaks: timeline.length,
+      best,
+      periods: timeline,
+    }));
+  } catch (error) {
+    console.error('Streak history error:', error);
+    return sendError(res, 'INTERNAL_ERROR', 'Failed to fetch streak history');
+  }
+}
+
+// Admins hand out extra freezes, e.g. after an illness
+export async function handleStreakFreezeGrant(req: ApiRequest, res: ApiResponse, { userId }: RouteParams<'/streak/:userId/freezes'>) {
+  try {
+    const { count }: GrantStreakFreezesInput = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return sendError(res, 'USER_NOT_FOUND');
+    }
+
+    const streak = await grantStreakFreezes(userId, count);
+
+    return res.json(createSuccessResponse(streak, `Granted ${count} streak freeze${count === 1 ? '' : 's'}`));
+  } catch (error) {
+    console.error('Streak freeze grant error:', error);
+    return sendError(res, 'INTERNAL_ERROR', 'Failed to grant streak freezes');
+  }
+}
@@ -0,0 +1,137 @@
+import { Prisma } from '@prisma/client';
+import { ApiRequest, ApiResponse } from '../lib/http';
+import { AuthedRequest, identifyCaller, UserRequest } from '../middleware/auth';
+import { prisma } from '../lib/prisma';
+import { createSuccessResponse, CreateTemplateInput, TemplatesQuery, UpdateTemplateInput } from '../lib/validation';
+import { sendError } from '../lib/errors';
+import { RouteParams } from '../lib/router';
+import { checkTemplateGuild, planExercises, toTemplateResponse, visibleTo } from '../lib/templates';
+
+// Workout template handlers
+export async function handleTemplateCreate(req: UserRequest, res: ApiResponse) {
+  try {
+    const { name, description, workout_type, duration_minutes, exercises, guild_id }: CreateTemplateInput = req.body;
+
+    const foreignGuild = await checkTemplateGuild(req.caller, guild_id);
+    if (foreignGuild) {
+      return sendError(res, foreignGuild.code, foreignGuild.error);
+    }
+
+    const planned = await planExercises(exercises ?? []);
+    if ('code' in planned) {
+      return sendError(res, planned.code, planned.error);
+    }
+
+    const template = await prisma.workoutTemplate.create({
+      data: {
+        owner_id: req.user.id,
+        guild_id: guild_id || null,
+        name,
+        description: description || null,
+        workout_type: workout_type || null,
+        duration_minutes: duration_minutes || null,
+        exercises: planned as unknown as Prisma.InputJsonArray,
+      },
+    });
+
+    return res.status(201).json(createSuccessResponse(toTemplateResponse(template)));
+
+  } catch (error) {
+    console.error('Template create error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
+
+// Templates owned by a user, or shared with a guild. Private ones are only listed for their owner.
+export async function handleTemplateList(req: ApiRequest, res: ApiResponse) {
+  try {
+    const { user_id, guild_id } = req.query as TemplatesQuery;
+
+    const identified = identifyCaller(req);
+    if (identified && 'code' in identified) {
+      return sendError(res, identified.code, identified.error);
+    }
+
+    const templates = await prisma.workoutTemplate.findMany({
+      where: { AND: [{ ...(user_id && { owner_id: user_id }), ...(guild_id && { guild_id }) }, visibleTo(identified?.caller ?? null)] },
+      orderBy: { name: 'asc' },
+    });
+
+    return res.json(createSuccessResponse(templates.map(toTemplateResponse)));
+
+  } catch (error) {
+    console.error('Template list error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
+
+// A private template is only found by its owner
+export async function handleTemplateGet(req: ApiRequest, res: ApiResponse, { id }: RouteParams<'/templates/:id'>) {
+  try {
+    const identified = identifyCaller(req);
+    if (identified && 'code' in identified) {
+      return sendError(res, identified.code, identified.error);
+    }
+
+    const template = await prisma.workoutTemplate.findFirst({ where: { id, ...visibleTo(identified?.caller ?? null) } });
+
+    if (!template) {
+      return sendError(res, 'TEMPLATE_NOT_FOUND');
+    }
+
+    return res.json(createSuccessResponse(toTemplateResponse(template)));
+
+  } catch (error) {
+    console.error('Template get error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
+
+// Access is checked against the template's owner before these run
+export async function handleTemplateUpdate(req: AuthedRequest, res: ApiResponse, { id }: RouteParams<'/templates/:id'>) {
+  try {
+    const { exercises, ...changes }: UpdateTemplateInput = req.body;
+
+    if (!await prisma.workoutTemplate.findUnique({ where: { id }, select: { id: true } })) {
+      return sendError(res, 'TEMPLATE_NOT_FOUND');
+    }
+
+    const foreignGuild = await checkTemplateGuild(req.caller, changes.guild_id);
+    if (foreignGuild) {
+      return sendError(res, foreignGuild.code, foreignGuild.error);
+    }
+
+    const planned = exercises && await planExercises(exercises);
+    if (planned && 'code' in planned) {
+      return sendError(res, planned.code, planned.error);
+    }
+
+    const template = await prisma.workoutTemplate.update({
+      where: { id },
+      data: { ...changes, ...(planned && { exercises: planned as unknown as Prisma.InputJsonArray }) },
+    });
+
+    return res.json(createSuccessResponse(toTemplateResponse(template), 'Template updated'));
+
+  } catch (error) {
+    console.error('Template update error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
+
+// Rotation labels pointing to a deleted template fall back to a plain workout day
+export async function handleTemplateDelete(req: AuthedRequest, res: ApiResponse, { id }: RouteParams<'/templates/:id'>) {
+  try {
+    if (!await prisma.workoutTemplate.findUnique({ where: { id }, select: { id: true } })) {
+      return sendError(res, 'TEMPLATE_NOT_FOUND');
+    }
+
+    await prisma.workoutTemplate.delete({ where: { id } });
+
+    return res.json(createSuccessResponse({ template_id: id }, 'Template deleted'));
+
+  } catch (error) {
+    console.error('Template delete error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
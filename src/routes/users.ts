@@ -0,0 +1,167 @@
+import { ApiRequest, ApiResponse } from '../lib/http';
+import { prisma } from '../lib/prisma';
+import { createSuccessResponse, ExportQuery, UpdateUserInput } from '../lib/validation';
+import { sendError } from '../lib/errors';
+import { RouteParams } from '../lib/router';
+import { calculateStreak, refreshStreak, STREAK_TRANSACTION_TIMEOUT_MS } from '../lib/streak';
+import { getCurrentRecords } from '../lib/records';
+import { EXPORT_CONTENT_TYPES, exportUserData } from '../lib/exports';
+
+// User handlers
+export async function handleUserGet(req: ApiRequest, res: ApiResponse, { id: userId }: RouteParams<'/users/:id'>) {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        discord_id: true,
+        username: true,
+        avatar_url: true,
+        bio: true,
+        joined_at: true,
+      },
+    });
+
+    if (!user) {
+      return sendError(res, 'USER_NOT_FOUND');
+    }
+
+    const streak = await calculateStreak(userId);
+
+    return res.json(createSuccessResponse({
+      ...user,
+      streak_count: streak.current_streak,
+      longest_streak: streak.longest_streak,
+      total_checkins: streak.total_checkins,
+    }));
+  } catch (error) {
+    console.error('User profile error:', error);
+    return sendError(res, 'INTERNAL_ERROR', 'Failed to fetch user');
+  }
+}
+
+export async function handleUserUpdate(req: ApiRequest, res: ApiResponse, { id: userId }: RouteParams<'/users/:id'>) {
+  try {
+    const { bio, avatar_url, timezone }: UpdateUserInput = req.body;
+    const updatedUser = await prisma.$transaction(async tx => {
+      const user = await tx.user.update({
+        where: { id: userId },
+        data: { bio, avatar_url, timezone },
+        select: {
+          id: true,
+          username: true,
+          bio: true,
+          avatar_url: true,
+          timezone: true,
+        },
+      });
+
+      // Keep the schedule's reminder timezone in step with the profile, and re-evaluate the streak on the
+      // calendar days of the new timezone so the stored columns commit together with it
+      if (timezone) {
+        await tx.schedule.updateMany({ where: { user_id: userId }, data: { timezone } });
+        await refreshStreak(userId, tx);
+      }
+      return user;
+    }, { timeout: STREAK_TRANSACTION_TIMEOUT_MS });
+
+    return res.json(createSuccessResponse(updatedUser, 'User updated successfully'));
+  } catch (error) {
+    console.error('User update error:', error);
+    return sendError(res, 'INTERNAL_ERROR', 'Failed to update user');
+  }
+}
+
+export async function handleUserPhotos(req: ApiRequest, res: ApiResponse, { id: userId }: RouteParams<'/users/:id/photos'>) {
+  try {
+    const photos = await prisma.checkIn.findMany({
+      where: {
+        user_id: userId,
+        photo_url: { not: null },
+      },
+      select: {
+        id: true,
+        photo_url: true,
+        date: true,
+        status: true,
+        created_at: true,
+      },
+      orderBy: { date: 'desc' },
+    });
+
+    return res.json(createSuccessResponse(photos));
+  } catch (error) {
+    console.error('User photos error:', error);
+    return sendError(res, 'INTERNAL_ERROR', 'Failed to fetch user photos');
+  }
+}
+
+// Current personal records of a user, newest first
+export async function handleUserRecords(req: ApiRequest, res: ApiResponse, { id: userId }: RouteParams<'/users/:id/records'>) {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+
+    if (!user) {
+      return sendError(res, 'USER_NOT_FOUND');
+    }
+
+    return res.json(createSuccessResponse(await getCurrentRecords(userId)));
+  } catch (error) {
+    console.error('User records error:', error);
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
+
+// Everything a member has logged, streamed as it is read. Headers wait for the first chunk so a
+// failure before then still gets an error response; after it the download just ends early.
+export async function handleUserExport(req: ApiRequest, res: ApiResponse, { id: userId }: RouteParams<'/users/:id/export'>) {
+  const { format } = req.query as ExportQuery;
+  let filename = '';
+  let started = false;
+  let closed = false;
+  let resume: (() => void) | null = null;
+
+  res.once('close', () => {
+    closed = true;
+    resume?.();
+  });
+
+  const write = async (chunk: string) => {
+    if (closed) {
+      throw new Error('Client went away during export');
+    }
+    if (!started) {
+      started = true;
+      res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.setHeader('Cache-Control', 'no-store');
+    }
+    if (!res.write(chunk)) {
+      await new Promise<void>(resolve => {
+        resume = resolve;
+        res.once('drain', resolve);
+      });
+      resume = null;
+    }
+  };
+
+  try {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      return sendError(res, 'USER_NOT_FOUND');
+    }
+
+    filename = `waddle-export-${user.username.replace(/[^\w-]+/g, '-')}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    await exportUserData(user, format, write);
+    return res.end();
+  } catch (error) {
+    console.error('User export error:', error);
+    // The status line went out with the first chunk; only aborting tells the client the file is incomplete
+    if (started) {
+      return res.destroy(error instanceof Error ? error : undefined);
+    }
+    return sendError(res, 'INTERNAL_ERROR');
+  }
+}
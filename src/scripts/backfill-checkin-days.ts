@@ -0,0 +1,54 @@
+import 'dotenv/config';
+import { prisma } from '../lib/prisma';
+import { getLocalDate } from '../lib/timezone';
+import { getUserTimeZone } from '../lib/users';
+
+// Stores the calendar day of check-ins logged before `CheckIn.day` existed:
+//   npm run checkins:backfill-days
+// A day that already has a check-in keeps it; the extra rows are listed so they can be
+// deleted with DELETE /api/checkins/:id, and keep a null day until then.
+const main = async () => {
+  const pending = await prisma.checkIn.findMany({
+    where: { day: null },
+    select: { id: true, user_id: true, date: true },
+    orderBy: { created_at: 'asc' },
+  });
+
+  const byUser = new Map<string, typeof pending>();
+  for (const checkin of pending) {
+    byUser.set(checkin.user_id, [...(byUser.get(checkin.user_id) ?? []), checkin]);
+  }
+
+  let filled = 0;
+  let duplicates = 0;
+  for (const [userId, checkins] of byUser) {
+    const timeZone = await getUserTimeZone(userId);
+    const stored = await prisma.checkIn.findMany({
+      where: { user_id: userId, day: { not: null } },
+      select: { day: true },
+    });
+    const taken = new Set(stored.map(checkin => checkin.day));
+
+    for (const checkin of checkins) {
+      const day = getLocalDate(checkin.date, timeZone);
+      if (taken.has(day)) {
+        duplicates++;
+        console.warn(`Check-in ${checkin.id} of user ${userId} duplicates ${day}; left without a day`);
+        continue;
+      }
+      await prisma.checkIn.update({ where: { id: checkin.id }, data: { day } });
+      taken.add(day);
+      filled++;
+    }
+  }
+
+  console.log(`Stored the day of ${filled} of ${pending.length} check-ins`);
+  process.exitCode = duplicates > 0 ? 1 : 0;
+};
+
+main()
+  .catch(error => {
+    console.error('Check-in day backfill error:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
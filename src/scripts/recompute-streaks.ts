@@ -0,0 +1,48 @@
+import 'dotenv/config';
+import { prisma } from '../lib/prisma';
+import { rebuildStreakHistory, refreshStaleStreaks } from '../lib/streak';
+
+// Rebuilds stored streaks and streak periods from check-ins, for the given user ids or everyone:
+//   npm run streaks:recompute -- [userId ...]
+// With --stale it only refreshes members whose stored streak has aged past the staleness limit; run that
+// on a schedule so leaderboards, which rank from the stored columns, stay current:
+//   npm run streaks:recompute -- --stale
+const main = async () => {
+  if (process.argv.includes('--stale')) {
+    const { refreshed, failed } = await refreshStaleStreaks();
+    console.log(`Refreshed ${refreshed} stale streaks${failed.length > 0 ? `, ${failed.length} failed: ${failed.join(', ')}` : ''}`);
+    process.exitCode = failed.length > 0 ? 1 : 0;
+    return;
+  }
+
+  const requested = process.argv.slice(2);
+  const users = requested.length > 0
+    ? await prisma.user.findMany({ where: { id: { in: requested } }, select: { id: true, username: true } })
+    : await prisma.user.findMany({ select: { id: true, username: true }, orderBy: { created_at: 'asc' } });
+
+  const missing = requested.filter(id => !users.some(user => user.id === id));
+  if (missing.length > 0) {
+    console.warn(`Unknown user ids: ${missing.join(', ')}`);
+  }
+
+  let failed = 0;
+  for (const user of users) {
+    try {
+      const streak = await rebuildStreakHistory(user.id);
+      console.log(`${user.username} (${user.id}): current ${streak.current_streak}, longest ${streak.longest_streak}`);
+    } catch (error) {
+      failed++;
+      console.error(`${user.username} (${user.id}) failed:`, error);
+    }
+  }
+
+  console.log(`Recomputed ${users.length - failed} of ${users.length} users`);
+  process.exitCode = failed > 0 || missing.length > 0 ? 1 : 0;
+};
+
+main()
+  .catch(error => {
+    console.error('Streak recompute error:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
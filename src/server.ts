@@ -0,0 +1,39 @@
+import 'dotenv/config';
+import express from 'express';
+import { handleRequest } from './app';
+import { ApiRequest } from './lib/http';
+
+type RawBodyRequest = express.Request & { rawBody?: string };
+
+const app = express();
+
+// Match Vercel's query parsing: plain strings and arrays, no nested objects
+app.set('query parser', 'simple');
+// Keep the unparsed body around so signed bot requests can be verified byte for byte
+// Activity file imports are sent as JSON; Vercel caps request bodies at 4.5 MB
+app.use(express.json({
+  limit: '4mb',
+  verify: (req, _res, buf) => {
+    (req as RawBodyRequest).rawBody = buf.toString('utf8');
+  },
+}));
+
+// Mounted rather than routed, so Express leaves decoding the path to the API router
+app.use('/api', (req, res) => {
+  const apiRequest: ApiRequest = {
+    method: req.method,
+    url: req.originalUrl,
+    headers: req.headers,
+    query: req.query as ApiRequest['query'],
+    body: req.body,
+    // express.json() fills an empty {} body for requests without one; what was sent is then nothing
+    rawBody: (req as RawBodyRequest).rawBody ?? '',
+  };
+
+  return handleRequest(apiRequest, res);
+});
+
+const PORT = process.env.PORT || 3000;
+app.listen(PORT, () => {
+  console.log(`🚀 WaddleTracker Server running on http://localhost:${PORT}/api`);
+});
@@ -0,0 +1,79 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { CheckInStatus } from '@prisma/client';
+import { Db } from '../src/lib/prisma';
+import { evaluateStreak } from '../src/lib/streak';
+
+const TIME_ZONE = 'America/New_York';
+
+// Just enough of the database for evaluateStreak: check-ins without a stored day (so their instants
+// are converted), no schedule, no freezes
+const stubDb = (checkins: { date: string; status: CheckInStatus }[]): Db => ({
+  checkIn: { findMany: async () => checkins.map(checkin => ({ ...checkin, date: new Date(checkin.date), day: null })) },
+  streakFreeze: { findMany: async () => [] },
+  user: { findUnique: async () => ({ streak_freezes: 0, timezone: TIME_ZONE, schedules: [] }) },
+  scheduleVersion: { findMany: async () => [] },
+  schedule: { findUnique: async () => null },
+}) as unknown as Db;
+
+const at = (now: string) => mock.timers.enable({ apis: ['Date'], now: new Date(now) });
+
+afterEach(() => mock.timers.reset());
+
+describe('evaluateStreak across DST changes', () => {
+  it('counts one day per calendar day over the spring-forward change', async () => {
+    at('2024-03-12T16:00:00Z');
+    // Late-evening workouts, 23:30 local, on both sides of the change
+    const { streak } = await evaluateStreak('user', stubDb([
+      { date: '2024-03-09T04:30:00Z', status: 'went' },
+      { date: '2024-03-10T04:30:00Z', status: 'went' },
+      { date: '2024-03-11T03:30:00Z', status: 'went' },
+      { date: '2024-03-12T03:30:00Z', status: 'went' },
+      { date: '2024-03-12T14:00:00Z', status: 'went' },
+    ]));
+
+    assert.deepEqual(streak.days.map(day => [day.date, day.outcome]), [
+      ['2024-03-08', 'counted'],
+      ['2024-03-09', 'counted'],
+      ['2024-03-10', 'counted'],
+      ['2024-03-11', 'counted'],
+      ['2024-03-12', 'counted'],
+    ]);
+    assert.equal(streak.current_streak, 5);
+  });
+
+  it('counts the 25-hour fall-back day once', async () => {
+    at('2024-11-05T16:00:00Z');
+    // Just after local midnight: 00:30 EDT before the change, 00:30 EST after it
+    const { streak } = await evaluateStreak('user', stubDb([
+      { date: '2024-11-02T04:30:00Z', status: 'went' },
+      { date: '2024-11-03T04:30:00Z', status: 'went' },
+      { date: '2024-11-03T06:30:00Z', status: 'went' },
+      { date: '2024-11-04T05:30:00Z', status: 'went' },
+      { date: '2024-11-05T05:30:00Z', status: 'went' },
+    ]));
+
+    assert.deepEqual(streak.days.map(day => day.date), ['2024-11-02', '2024-11-03', '2024-11-04', '2024-11-05']);
+    assert.equal(streak.current_streak, 4);
+    assert.equal(streak.total_checkins, 5);
+  });
+
+  it('breaks on a DST day with no check-in', async () => {
+    at('2024-03-11T16:00:00Z');
+    const { streak, periods } = await evaluateStreak('user', stubDb([
+      { date: '2024-03-09T17:00:00Z', status: 'went' },
+      { date: '2024-03-11T15:00:00Z', status: 'went' },
+    ]));
+
+    assert.deepEqual(streak.days.map(day => [day.date, day.outcome]), [
+      ['2024-03-10', 'broken'],
+      ['2024-03-11', 'counted'],
+    ]);
+    assert.equal(streak.current_streak, 1);
+    assert.equal(streak.freezable_day, '2024-03-10');
+    assert.deepEqual(periods.map(period => [period.start_day, period.end_day, period.break_day]), [
+      ['2024-03-09', '2024-03-09', '2024-03-10'],
+      ['2024-03-11', '2024-03-11', null],
+    ]);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { addDays, daysBetween, getDayRange, getLocalDate, getStartOfDay, getWeekday, getWeekStart } from '../src/lib/timezone';
+
+const HOUR = 60 * 60 * 1000;
+
+const hoursIn = (day: string, timeZone: string): number => {
+  const { start, end } = getDayRange(day, timeZone);
+  return (end.getTime() - start.getTime()) / HOUR;
+};
+
+// America/New_York springs forward on 2024-03-10 (02:00 EST -> 03:00 EDT, at 07:00Z)
+// and falls back on 2024-11-03 (02:00 EDT -> 01:00 EST, at 06:00Z)
+describe('getLocalDate', () => {
+  it('puts instants around the spring-forward change on the right day', () => {
+    assert.equal(getLocalDate(new Date('2024-03-10T04:59:00Z'), 'America/New_York'), '2024-03-09');
+    assert.equal(getLocalDate(new Date('2024-03-10T05:00:00Z'), 'America/New_York'), '2024-03-10');
+    assert.equal(getLocalDate(new Date('2024-03-10T06:59:00Z'), 'America/New_York'), '2024-03-10');
+    assert.equal(getLocalDate(new Date('2024-03-10T07:00:00Z'), 'America/New_York'), '2024-03-10');
+    assert.equal(getLocalDate(new Date('2024-03-11T03:59:00Z'), 'America/New_York'), '2024-03-10');
+    assert.equal(getLocalDate(new Date('2024-03-11T04:00:00Z'), 'America/New_York'), '2024-03-11');
+  });
+
+  it('keeps both passes through the repeated hour on the fall-back day', () => {
+    // 01:30 EDT and 01:30 EST
+    assert.equal(getLocalDate(new Date('2024-11-03T05:30:00Z'), 'America/New_York'), '2024-11-03');
+    assert.equal(getLocalDate(new Date('2024-11-03T06:30:00Z'), 'America/New_York'), '2024-11-03');
+    assert.equal(getLocalDate(new Date('2024-11-04T04:59:00Z'), 'America/New_York'), '2024-11-03');
+    assert.equal(getLocalDate(new Date('2024-11-04T05:00:00Z'), 'America/New_York'), '2024-11-04');
+  });
+
+  it('follows southern-hemisphere changes', () => {
+    // Australia/Sydney falls back on 2024-04-07 and springs forward on 2024-10-06
+    assert.equal(getLocalDate(new Date('2024-04-06T12:59:00Z'), 'Australia/Sydney'), '2024-04-06');
+    assert.equal(getLocalDate(new Date('2024-04-06T13:00:00Z'), 'Australia/Sydney'), '2024-04-07');
+    assert.equal(getLocalDate(new Date('2024-10-05T13:59:00Z'), 'Australia/Sydney'), '2024-10-05');
+    assert.equal(getLocalDate(new Date('2024-10-05T14:00:00Z'), 'Australia/Sydney'), '2024-10-06');
+  });
+});
+
+describe('day keys', () => {
+  it('step one calendar day at a time across DST changes', () => {
+    assert.equal(addDays('2024-03-09', 1), '2024-03-10');
+    assert.equal(addDays('2024-03-10', 1), '2024-03-11');
+    assert.equal(addDays('2024-11-03', 1), '2024-11-04');
+    assert.equal(addDays('2024-11-04', -2), '2024-11-02');
+  });
+
+  it('count whole days across DST changes', () => {
+    assert.equal(daysBetween('2024-03-01', '2024-04-01'), 31);
+    assert.equal(daysBetween('2024-11-01', '2024-11-30'), 29);
+    assert.equal(daysBetween('2024-11-04', '2024-11-02'), -2);
+  });
+
+  it('name the weekday and week start of a DST day', () => {
+    assert.equal(getWeekday('2024-03-10'), 0);
+    assert.equal(getWeekday('2024-11-03'), 0);
+    assert.equal(getWeekStart('2024-03-10'), '2024-03-04');
+    assert.equal(getWeekStart('2024-03-11'), '2024-03-11');
+  });
+});
+
+describe('getDayRange', () => {
+  it('covers 23 hours on a spring-forward day and 25 on a fall-back day', () => {
+    assert.equal(hoursIn('2024-03-10', 'America/New_York'), 23);
+    assert.equal(hoursIn('2024-11-03', 'America/New_York'), 25);
+    assert.equal(hoursIn('2024-03-11', 'America/New_York'), 24);
+    assert.equal(hoursIn('2024-10-06', 'Australia/Sydney'), 23);
+    assert.equal(hoursIn('2024-04-07', 'Australia/Sydney'), 25);
+  });
+
+  it('starts each day at local midnight', () => {
+    assert.deepEqual(getDayRange('2024-03-10', 'America/New_York'), {
+      start: new Date('2024-03-10T05:00:00Z'),
+      end: new Date('2024-03-11T04:00:00Z'),
+    });
+    assert.deepEqual(getDayRange('2024-11-03', 'America/New_York'), {
+      start: new Date('2024-11-03T04:00:00Z'),
+      end: new Date('2024-11-04T05:00:00Z'),
+    });
+  });
+
+  it('starts a day whose midnight was skipped at its first instant', () => {
+    // America/Santiago jumped from 00:00 -04 to 01:00 -03 on 2024-09-08
+    assert.deepEqual(getStartOfDay('2024-09-08', 'America/Santiago'), new Date('2024-09-08T04:00:00Z'));
+    assert.equal(hoursIn('2024-09-08', 'America/Santiago'), 23);
+  });
+});
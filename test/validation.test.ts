@@ -0,0 +1,24 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isValidDateInput } from '../src/lib/validation';
+
+describe('isValidDateInput', () => {
+  it('accepts calendar dates and ISO 8601 timestamps', () => {
+    assert.equal(isValidDateInput('2024-02-29'), true);
+    assert.equal(isValidDateInput('2024-03-10T06:30:00Z'), true);
+    assert.equal(isValidDateInput('2024-11-03T01:30:00-04:00'), true);
+  });
+
+  it('rejects days the month does not have', () => {
+    assert.equal(isValidDateInput('2024-02-30'), false);
+    assert.equal(isValidDateInput('2023-02-29'), false);
+    assert.equal(isValidDateInput('2024-04-31T10:00:00Z'), false);
+    assert.equal(isValidDateInput('2024-13-01'), false);
+  });
+
+  it('rejects other date formats', () => {
+    assert.equal(isValidDateInput('March 1, 2024'), false);
+    assert.equal(isValidDateInput('2024/03/01'), false);
+    assert.equal(isValidDateInput(''), false);
+  });
+});